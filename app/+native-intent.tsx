@@ -0,0 +1,15 @@
+/**
+ * 시스템 링크 처리 (expo-router)
+ * 콜드 스타트 / 실행 중에 받은 딥링크를 WebView로 전달하고, 라우터는 항상 홈 화면 유지
+ */
+
+import { receiveDeepLink } from '@/lib/deep-link';
+
+export function redirectSystemPath({ path, initial }: { path: string; initial: boolean }) {
+  try {
+    receiveDeepLink(path, initial);
+  } catch (error) {
+    console.error('[DeepLink] Failed to handle link:', error);
+  }
+  return '/';
+}
@@ -9,6 +9,7 @@ import 'react-native-reanimated';
 import CustomSplash from '@/components/custom-splash';
 import { APP_CONFIG } from '@/constants/app-config';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { loadFeatureFlags } from '@/lib/feature-flags';
 
 // 스플래시 상태를 전역에서 제어하기 위한 콜백
 let hideSplashCallback: (() => void) | null = null;
@@ -60,6 +61,11 @@ export default function RootLayout() {
     }
   }, [colorScheme, navigationBar]);
 
+  // 기능 플래그 불러오기 (원격 설정 / 로컬 파일, 실패 시 기본값 유지)
+  useEffect(() => {
+    loadFeatureFlags();
+  }, []);
+
   // 외부에서 호출 가능한 숨김 함수 등록
   hideSplashCallback = useCallback(() => {
     setShowSplash(false);
@@ -4,22 +4,34 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { StyleSheet, View, useColorScheme } from 'react-native';
+import { AppState, StyleSheet, View, useColorScheme } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 // import { AppCameraView } from '@/components/camera-view';
 import OfflineScreen from '@/components/offline-screen';
 import WebViewContainer, { webViewControls } from '@/components/webview-container';
+import WebViewTabs from '@/components/webview-tabs';
 import { APP_CONFIG } from '@/constants/app-config';
+import { useFeatureFlag } from '@/hooks/use-feature-flags';
 import { useIsOnline } from '@/hooks/use-network-status';
+import { isTabsEnabled } from '@/lib/tabs';
+import { getAppActions } from '@/stores';
+
+// 마운트된 모든 WebView 새로고침 (탭 모드에서는 탭마다 WebView가 있음)
+const reloadAllWebViews = () => {
+  webViewControls.getIds().forEach(id => webViewControls.reload(id));
+};
 
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const colorScheme = useColorScheme();
   const { safeArea, statusBar, navigationBar, offline } = APP_CONFIG;
+  const tabsEnabled = isTabsEnabled();
 
   // 네트워크 상태
   const isOnline = useIsOnline();
+  // 오프라인 모드: 오프라인 화면 대신 캐시된 페이지 사용
+  const offlineMode = useFeatureFlag('offlineMode');
   const [showOffline, setShowOffline] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
   const wasOffline = useRef(false);
@@ -28,9 +40,19 @@ export default function HomeScreen() {
   // 카메라 상태
   // const [cameraVisible, setCameraVisible] = useState(false);
 
+  // 앱 활성 상태 → 전역 스토어 (isActive)
+  useEffect(() => {
+    const { setActive } = getAppActions();
+    setActive(AppState.currentState === 'active');
+    const subscription = AppState.addEventListener('change', state => {
+      setActive(state === 'active');
+    });
+    return () => subscription.remove();
+  }, []);
+
   // 오프라인 상태 감지
   useEffect(() => {
-    if (!offline.enabled) return;
+    if (!offline.enabled || offlineMode) return;
 
     if (!isOnline) {
       // 오프라인으로 전환
@@ -45,7 +67,7 @@ export default function HomeScreen() {
       if (offline.autoReconnect) {
         // 자동 새로고침
         setTimeout(() => {
-          webViewControls.reload();
+          reloadAllWebViews();
           setShowOffline(false);
           setIsReconnecting(false);
           wasOffline.current = false;
@@ -55,12 +77,12 @@ export default function HomeScreen() {
         wasOffline.current = false;
       }
     }
-  }, [isOnline, offline.enabled, offline.autoReconnect]);
+  }, [isOnline, offline.enabled, offline.autoReconnect, offlineMode]);
 
   // 수동 재시도
   const handleRetry = useCallback(() => {
     if (isOnline) {
-      webViewControls.reload();
+      reloadAllWebViews();
       setShowOffline(false);
       wasOffline.current = false;
       hasReloaded.current = false;
@@ -83,6 +105,8 @@ export default function HomeScreen() {
   };
 
   const getBottomInset = () => {
+    // 탭 모드에서는 탭바가 하단 SafeArea 처리
+    if (tabsEnabled) return 0;
     // 네비게이션 바가 숨김이면 하단 SafeArea도 없음 (웹뷰가 하단까지 확장)
     if (navigationBar.visibility === 'hidden') return 0;
     if (!safeArea.enabled) return 0;
@@ -98,7 +122,7 @@ export default function HomeScreen() {
         <View style={[styles.safeAreaTop, { height: getTopInset(), backgroundColor: safeAreaBgColor }]} />
       )}
       
-      <WebViewContainer />
+      {tabsEnabled ? <WebViewTabs /> : <WebViewContainer />}
       
       {/* 하단 SafeArea */}
       {getBottomInset() > 0 && (
@@ -117,7 +141,7 @@ export default function HomeScreen() {
       )}
 
       {/* 오프라인 화면 */}
-      {showOffline && (
+      {showOffline && !offlineMode && (
         <OfflineScreen 
           onRetry={handleRetry}
           isReconnecting={isReconnecting}
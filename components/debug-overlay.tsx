@@ -14,6 +14,7 @@ import {
 } from 'react-native';
 
 import { APP_CONFIG } from '@/constants/app-config';
+import { getBridgeThroughput, type BridgeThroughput } from '@/lib/bridge-stats';
 
 export type LogLevel = 'info' | 'warn' | 'error' | 'success' | 'event' | 'nav';
 
@@ -69,6 +70,7 @@ const DebugOverlayComponent = React.forwardRef<DebugOverlayRef, DebugOverlayProp
     const [isMinimized, setIsMinimized] = useState(true);
     const [isExpanded, setIsExpanded] = useState(false);
     const scrollViewRef = useRef<ScrollView>(null);
+    const [throughput, setThroughput] = useState<BridgeThroughput | null>(null);
     
     const { debug } = APP_CONFIG;
     const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -161,6 +163,20 @@ const DebugOverlayComponent = React.forwardRef<DebugOverlayRef, DebugOverlayProp
       };
     }, [addLog, clearLogs, exportLogs]);
 
+    // 브릿지 전송량 (펼쳐진 상태에서 1초마다 갱신)
+    useEffect(() => {
+      if (!debug.enabled || !visible || isMinimized) return;
+      const timer = setInterval(() => setThroughput(getBridgeThroughput()), 1000);
+      return () => clearInterval(timer);
+    }, [debug.enabled, visible, isMinimized]);
+
+    // 바이트 포맷
+    const formatBytes = (bytes: number) => {
+      if (bytes < 1024) return `${bytes}B`;
+      if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+      return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+    };
+
     // 초기 로그
     useEffect(() => {
       addLog('info', '디버그 오버레이 시작됨');
@@ -306,6 +322,14 @@ const DebugOverlayComponent = React.forwardRef<DebugOverlayRef, DebugOverlayProp
             {logs.filter(l => l.level === 'warn').length} warns | 
             {logs.length} total
           </Text>
+          {throughput && (
+            <Text style={styles.statusText}>
+              📡 {throughput.messagesPerSecond} msg/s | 
+              {throughput.injectionsPerSecond} inject/s | 
+              {formatBytes(throughput.bytesPerSecond)}/s | 
+              {throughput.coalescedPerSecond} merged/s
+            </Text>
+          )}
         </View>
       </View>
     );
@@ -0,0 +1,119 @@
+/**
+ * 네이티브 헤더 컴포넌트
+ * WebView 위에 제목, 뒤로/닫기 버튼, 웹에서 지정한 오른쪽 버튼 표시
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { type ComponentProps } from 'react';
+import { Pressable, StyleSheet, Text, View, useColorScheme } from 'react-native';
+
+import { APP_CONFIG } from '@/constants/app-config';
+import type { HeaderButton } from '@/lib/header';
+
+interface NativeHeaderProps {
+  title: string;
+  showBackButton: boolean;
+  showCloseButton: boolean;
+  rightButtons: readonly HeaderButton[];
+  onBack: () => void;
+  onClose: () => void;
+  onButtonPress: (id: string) => void;
+}
+
+type IconName = ComponentProps<typeof Ionicons>['name'];
+
+const BUTTON_SIZE = 44;
+
+export default function NativeHeader({
+  title,
+  showBackButton,
+  showCloseButton,
+  rightButtons,
+  onBack,
+  onClose,
+  onButtonPress,
+}: NativeHeaderProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { header } = APP_CONFIG;
+
+  const backgroundColor = isDark ? header.darkBackgroundColor : header.backgroundColor;
+  const tintColor = isDark ? header.darkTintColor : header.tintColor;
+
+  // 제목이 가운데 오도록 양쪽 영역 너비를 맞춤
+  const leftCount = (showBackButton ? 1 : 0) + (showCloseButton ? 1 : 0);
+  const sideWidth = Math.max(leftCount, rightButtons.length, 1) * BUTTON_SIZE;
+
+  return (
+    <View style={[styles.container, { height: header.height, backgroundColor }]}>
+      <View style={[styles.side, { width: sideWidth }]}>
+        {showBackButton && (
+          <Pressable style={styles.button} onPress={onBack} hitSlop={4} accessibilityLabel="뒤로">
+            <Ionicons name="chevron-back" size={24} color={tintColor} />
+          </Pressable>
+        )}
+        {showCloseButton && (
+          <Pressable style={styles.button} onPress={onClose} hitSlop={4} accessibilityLabel="닫기">
+            <Ionicons name="close" size={24} color={tintColor} />
+          </Pressable>
+        )}
+      </View>
+
+      <Text style={[styles.title, { color: tintColor }]} numberOfLines={1}>
+        {title}
+      </Text>
+
+      <View style={[styles.side, styles.right, { width: sideWidth }]}>
+        {rightButtons.map(button => (
+          <Pressable
+            key={button.id}
+            style={styles.button}
+            onPress={() => onButtonPress(button.id)}
+            hitSlop={4}
+            accessibilityLabel={button.label ?? button.id}
+          >
+            {button.icon ? (
+              <Ionicons name={button.icon as IconName} size={22} color={tintColor} />
+            ) : (
+              <Text style={[styles.buttonText, { color: tintColor }]} numberOfLines={1}>
+                {button.label ?? button.id}
+              </Text>
+            )}
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(0,0,0,0.15)',
+  },
+  side: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  right: {
+    justifyContent: 'flex-end',
+  },
+  button: {
+    minWidth: BUTTON_SIZE,
+    height: BUTTON_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,218 @@
+/**
+ * 팝업 모달 WebView 컴포넌트
+ * window.open / target="_blank"로 열린 페이지를 상단바(닫기 버튼, 제목)가 있는 모달로 표시
+ * OAuth 팝업, 결제창, PDF 미리보기 등에서 window.opener.postMessage / window.close() 지원
+ */
+
+import React, { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+  useColorScheme,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { WebView } from 'react-native-webview';
+import type {
+  ShouldStartLoadRequest,
+  WebViewMessageEvent,
+  WebViewNavigation,
+} from 'react-native-webview/lib/WebViewTypes';
+
+import { debugLog } from '@/components/debug-overlay';
+import { APP_CONFIG } from '@/constants/app-config';
+import {
+  createMessageEventScript,
+  getUrlOrigin,
+  isTargetOriginAllowed,
+  POPUP_CLOSE,
+  POPUP_OPENER_MESSAGE,
+  POPUP_WINDOW_SCRIPT,
+} from '@/lib/popup';
+import { resolveUrlAction, type UrlDecision } from '@/lib/url-policy';
+
+export interface PopupWebViewRef {
+  /** 팝업 페이지에 message 이벤트 전달 (targetOrigin이 팝업 페이지와 맞지 않으면 무시) */
+  postMessage: (message: unknown, targetOrigin: string, origin: string | null) => void;
+}
+
+interface PopupWebViewProps {
+  /** 열 URL (null이면 닫힘) */
+  url: string | null;
+  /** 닫기 요청 (닫기 버튼, window.close(), Android 뒤로가기) */
+  onClose: () => void;
+  /** window.opener.postMessage 호출 (origin: 팝업 페이지 origin) */
+  onOpenerMessage: (message: unknown, targetOrigin: string, origin: string | null) => void;
+  /** inline이 아닌 URL 처리 (앱 내 브라우저, 외부 앱, 차단, 이벤트) */
+  onUrlAction: (url: string, decision: UrlDecision, loadFallback: (fallbackUrl: string) => void) => void;
+}
+
+const PopupWebView = React.forwardRef<PopupWebViewRef, PopupWebViewProps>(
+  ({ url, onClose, onOpenerMessage, onUrlAction }, ref) => {
+    const webViewRef = useRef<WebView>(null);
+    const insets = useSafeAreaInsets();
+    const colorScheme = useColorScheme();
+    const isDark = colorScheme === 'dark';
+    const { webview } = APP_CONFIG;
+
+    const [title, setTitle] = useState('');
+    const [currentUrl, setCurrentUrl] = useState(url ?? '');
+    const [canGoBack, setCanGoBack] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // 새 팝업이 열리면 상태 초기화
+    useEffect(() => {
+      setTitle('');
+      setCurrentUrl(url ?? '');
+      setCanGoBack(false);
+      setIsLoading(true);
+    }, [url]);
+
+    useImperativeHandle(ref, () => ({
+      postMessage: (message, targetOrigin, origin) => {
+        if (!isTargetOriginAllowed(targetOrigin, currentUrl)) {
+          console.warn(`[Popup] postMessage blocked: target origin ${targetOrigin} does not match ${currentUrl}`);
+          return;
+        }
+        webViewRef.current?.injectJavaScript(createMessageEventScript(message, origin));
+      },
+    }), [currentUrl]);
+
+    // 팝업 페이지에서 온 메시지 (window.opener.postMessage, window.close)
+    const handleMessage = useCallback((event: WebViewMessageEvent) => {
+      try {
+        const data = JSON.parse(event.nativeEvent.data);
+        if (data.type === POPUP_CLOSE) {
+          debugLog('nav', '🪟 팝업 닫기 (window.close)');
+          onClose();
+          return;
+        }
+        if (data.type === POPUP_OPENER_MESSAGE) {
+          onOpenerMessage(data.data?.message, data.data?.targetOrigin ?? '*', getUrlOrigin(event.nativeEvent.url));
+        }
+      } catch {
+        // JSON이 아닌 메시지는 무시
+      }
+    }, [onClose, onOpenerMessage]);
+
+    const handleNavigationStateChange = useCallback((navState: WebViewNavigation) => {
+      setCanGoBack(navState.canGoBack);
+      if (navState.url) setCurrentUrl(navState.url);
+      if (navState.title) setTitle(navState.title);
+    }, []);
+
+    // 기본 WebView와 같은 URL 처리 규칙 적용 (inline만 팝업에서 로드, intent fallback은 팝업에서 이동)
+    const handleShouldStartLoadWithRequest = useCallback((request: ShouldStartLoadRequest) => {
+      const decision = resolveUrlAction(request.url);
+      if (decision.action === 'inline') return true;
+      if (request.isTopFrame === false) return false;
+      onUrlAction(request.url, decision, fallbackUrl => {
+        webViewRef.current?.injectJavaScript(`window.location.href=${JSON.stringify(fallbackUrl)};true;`);
+      });
+      return false;
+    }, [onUrlAction]);
+
+    // Android 뒤로가기: 팝업 안에서 뒤로 갈 수 있으면 이동, 아니면 닫기
+    const handleRequestClose = useCallback(() => {
+      if (canGoBack) {
+        webViewRef.current?.goBack();
+        return;
+      }
+      onClose();
+    }, [canGoBack, onClose]);
+
+    const headerBackgroundColor = isDark ? webview.popup.darkHeaderBackgroundColor : webview.popup.headerBackgroundColor;
+    const textColor = isDark ? '#ffffff' : '#1a1a1a';
+    const displayTitle = title || currentUrl.replace(/^https?:\/\//, '').split('/')[0];
+
+    return (
+      <Modal
+        visible={url !== null}
+        animationType="slide"
+        presentationStyle="fullScreen"
+        onRequestClose={handleRequestClose}
+      >
+        <View style={[styles.container, { backgroundColor: headerBackgroundColor }]}>
+          {/* 상단바 */}
+          <View style={[styles.header, { paddingTop: insets.top, backgroundColor: headerBackgroundColor }]}>
+            <Pressable style={styles.closeButton} onPress={onClose} hitSlop={8}>
+              <Text style={[styles.closeText, { color: textColor }]}>✕</Text>
+            </Pressable>
+            <Text style={[styles.title, { color: textColor }]} numberOfLines={1}>
+              {displayTitle}
+            </Text>
+            <View style={styles.indicator}>
+              {isLoading && <ActivityIndicator size="small" color={APP_CONFIG.theme.loadingIndicatorColor} />}
+            </View>
+          </View>
+
+          {url !== null && (
+            <WebView
+              ref={webViewRef}
+              source={{ uri: url }}
+              style={styles.webview}
+              userAgent={webview.userAgent}
+              javaScriptEnabled={webview.options.javaScriptEnabled}
+              domStorageEnabled={webview.options.domStorageEnabled}
+              thirdPartyCookiesEnabled={webview.options.thirdPartyCookiesEnabled}
+              sharedCookiesEnabled={true}
+              originWhitelist={['*']}
+              // 팝업 안에서 다시 여는 창은 같은 모달에서 이동
+              setSupportMultipleWindows={false}
+              injectedJavaScriptBeforeContentLoaded={POPUP_WINDOW_SCRIPT}
+              onMessage={handleMessage}
+              onNavigationStateChange={handleNavigationStateChange}
+              onShouldStartLoadWithRequest={handleShouldStartLoadWithRequest}
+              onLoadStart={() => setIsLoading(true)}
+              onLoadEnd={() => setIsLoading(false)}
+            />
+          )}
+        </View>
+      </Modal>
+    );
+  }
+);
+
+PopupWebView.displayName = 'PopupWebView';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(0,0,0,0.15)',
+  },
+  closeButton: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeText: {
+    fontSize: 20,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  indicator: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  webview: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+});
+
+export default PopupWebView;
@@ -0,0 +1,63 @@
+/**
+ * 당겨서 새로고침 컨테이너
+ * WebView를 RefreshControl이 있는 ScrollView로 감싸고, canRefresh일 때만 당기기 허용
+ */
+
+import React from 'react';
+import { RefreshControl, ScrollView, StyleSheet } from 'react-native';
+
+import { APP_CONFIG } from '@/constants/app-config';
+
+interface PullToRefreshViewProps {
+  /** 당겨서 새로고침 사용 (false면 감싸지 않고 그대로 렌더링) */
+  enabled: boolean;
+  /** 지금 당길 수 있는지 (페이지 맨 위, URL 패턴/웹 설정 허용) */
+  canRefresh: boolean;
+  /** 새로고침 표시 중 */
+  refreshing: boolean;
+  onRefresh: () => void;
+  children: React.ReactNode;
+}
+
+export default function PullToRefreshView({
+  enabled,
+  canRefresh,
+  refreshing,
+  onRefresh,
+  children,
+}: PullToRefreshViewProps) {
+  if (!enabled) {
+    return <>{children}</>;
+  }
+
+  const color = APP_CONFIG.theme.loadingIndicatorColor;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      // 맨 위가 아니면 바깥 ScrollView가 세로 드래그를 가져가지 않도록 비활성화
+      scrollEnabled={canRefresh || refreshing}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          enabled={canRefresh}
+          colors={[color]}
+          tintColor={color}
+        />
+      }
+    >
+      {children}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+});
@@ -1,18 +1,23 @@
 /**
  * WebView 컨테이너 컴포넌트
  * 단일 웹 세션을 유지하며 전역 상태와 연동
+ * id를 지정하면 별도 브릿지 인스턴스(보안 토큰, 핸들러, 전송 대상)를 가진 WebView로 동작
+ * 기본 WebView는 상태(URL, 로딩, 제목, 에러 등)를 전역 스토어에 반영하고,
+ * 스토어의 navigate / reload 요청은 webViewId가 같은 WebView에서 처리
  */
 
 import { useFocusEffect } from '@react-navigation/native';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import * as WebBrowser from 'expo-web-browser';
+import React, { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   BackHandler,
-  Linking,
   Platform,
   Pressable,
   StyleSheet,
   Text,
+  ToastAndroid,
   View,
 } from 'react-native';
 import { WebView } from 'react-native-webview';
@@ -22,24 +27,57 @@ import type {
   WebViewHttpErrorEvent,
   WebViewMessageEvent,
   WebViewNavigation,
+  WebViewOpenWindowEvent,
   WebViewProgressEvent,
 } from 'react-native-webview/lib/WebViewTypes';
 
 import DebugOverlay, { debugLog, DebugOverlayRef } from '@/components/debug-overlay';
+import NativeHeader from '@/components/native-header';
+import PopupWebView, { type PopupWebViewRef } from '@/components/popup-webview';
+import PullToRefreshView from '@/components/pull-to-refresh-view';
 import { APP_CONFIG } from '@/constants/app-config';
-import {
-  handleBridgeMessage,
-  setBridgeWebView
-} from '@/lib/bridge';
-import { getBridgeClientScript } from '@/lib/bridge-client';
+import { useFeatureFlag } from '@/hooks/use-feature-flags';
+import { useIsOnline } from '@/hooks/use-network-status';
+import { createBridge, destroyBridge } from '@/lib/bridge';
+import { BACK_PRESSED_ACTION, DEFAULT_BRIDGE_ID, REFRESH_REQUESTED_ACTION } from '@/lib/bridge-client';
+import { BridgeError } from '@/lib/bridge-error';
 import { registerBuiltInHandlers } from '@/lib/bridges';
+import { setDeepLinkHandler, type DeepLink } from '@/lib/deep-link';
+import { getHeaderOverride, resolveHeaderRule, setHeaderOverride, subscribeHeader } from '@/lib/header';
+import {
+  createMessageEventScript,
+  getPopupTarget,
+  getUrlOrigin,
+  isTargetOriginAllowed,
+  POPUP_CLOSE_REQUEST,
+  POPUP_CLOSED_SCRIPT,
+  POPUP_PARENT_MESSAGE,
+  POPUP_PARENT_SCRIPT,
+} from '@/lib/popup';
+import {
+  getPullToRefreshOverride,
+  isPullToRefreshAllowed,
+  setPullToRefreshOverride,
+  subscribePullToRefresh,
+} from '@/lib/pull-to-refresh';
+import { openExternalUrl, resolveUrlAction, type UrlDecision } from '@/lib/url-policy';
+import { getWebviewActions, useAppStore } from '@/stores';
 
-// 브릿지 스크립트 즉시 생성
-const BRIDGE_CLIENT_SCRIPT = getBridgeClientScript();
-
-// WebView 인스턴스를 전역에서 접근 가능하도록 (네비게이션 제어용)
+// WebView 인스턴스를 전역에서 접근 가능하도록 (네비게이션 제어용, 기본 WebView)
 export let webViewRef: React.RefObject<WebView | null>;
 
+// WebView ID → ref (webViewControls에서 ID로 제어)
+const webViewRefs: Map<string, React.RefObject<WebView | null>> = new Map();
+
+interface WebViewContainerProps {
+  /** WebView ID (브릿지 ID). 미지정 시 기본 WebView ('main') */
+  id?: string;
+  /** 처음 열 URL (기본 APP_CONFIG.webview.baseUrl) */
+  uri?: string;
+  /** 전역 핸들러 공유 여부 (기본 true, 기본 WebView는 항상 공유) */
+  shareGlobalHandlers?: boolean;
+}
+
 // 로딩 타임아웃 (ms)
 const LOADING_TIMEOUT = 30000;
 
@@ -49,106 +87,303 @@ interface WebViewError {
   url: string;
 }
 
-export default function WebViewContainer() {
+export default function WebViewContainer({
+  id = DEFAULT_BRIDGE_ID,
+  uri = APP_CONFIG.webview.baseUrl,
+  shareGlobalHandlers = true,
+}: WebViewContainerProps = {}) {
   const ref = useRef<WebView>(null);
   const debugOverlayRef = useRef<DebugOverlayRef>(null);
-  webViewRef = ref;
+  const popupRef = useRef<PopupWebViewRef>(null);
+  const isMain = id === DEFAULT_BRIDGE_ID;
+  if (isMain) {
+    webViewRef = ref;
+  }
+
+  // 이 WebView 전용 브릿지 (같은 ID면 기존 인스턴스 사용)
+  const bridge = useMemo(() => createBridge(id, { shareGlobalHandlers }), [id, shareGlobalHandlers]);
 
   // 초기 로딩 상태만 관리 (SPA 내부 네비게이션에서는 스피너 표시 안 함)
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [canGoBack, setCanGoBack] = useState(false);
   const [error, setError] = useState<WebViewError | null>(null);
   const [loadProgress, setLoadProgress] = useState(0);
-  const [currentUrl, setCurrentUrl] = useState<string>(APP_CONFIG.webview.baseUrl);
+  const [currentUrl, setCurrentUrl] = useState<string>(uri);
+  const [sourceUri, setSourceUri] = useState<string>(uri); // WebView 생성 시 로드할 URL (에러 화면에서 navigate 요청 시 변경)
   const [webViewKey, setWebViewKey] = useState(1); // WebView 재생성용 키
   const [cacheMode, setCacheMode] = useState(true); // 캐시 사용 여부
   const [showDebugStatus, setShowDebugStatus] = useState(false); // 디버그 상태바 표시
+  const [popupUrl, setPopupUrl] = useState<string | null>(null); // 모달로 열린 팝업 URL
+  const [isScrolledToTop, setIsScrolledToTop] = useState(true); // 당겨서 새로고침 가능 위치
+  const [isRefreshing, setIsRefreshing] = useState(false); // 당겨서 새로고침 표시 중
+  const [pageTitle, setPageTitle] = useState(''); // document.title (네이티브 헤더)
   const hasLoadedOnce = useRef(false);
   const loadingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const debugStatusTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const loadStartTime = useRef<number>(0);
   const emptyBodyRetryCount = useRef(0); // 빈 body 재시도 카운터
+  const isHandlingBackRef = useRef(false); // 뒤로가기 웹 응답 대기 중
+  const lastRootBackRef = useRef(0); // 마지막 루트 뒤로가기 시각 (두 번 눌러 종료)
   const MAX_EMPTY_BODY_RETRIES = 2; // 일반 재시도 횟수
 
   const { webview, theme, debug } = APP_CONFIG;
 
-  // 컴포넌트 마운트 시 초기화
+  // 오프라인 모드: 오프라인일 때 캐시 우선 로드 (Android)
+  const offlineMode = useFeatureFlag('offlineMode');
+  const isOnline = useIsOnline();
+
+  // 당겨서 새로고침: 웹에서 켜고 끈 값이 있으면 우선, 없으면 URL 패턴 기준 (맨 위에서만)
+  const pullToRefreshOverride = useSyncExternalStore(subscribePullToRefresh, () => getPullToRefreshOverride(id));
+  const canPullToRefresh = isScrolledToTop && (pullToRefreshOverride ?? isPullToRefreshAllowed(currentUrl));
+
+  // 네이티브 헤더: 웹에서 setHeader로 지정한 값이 있으면 우선, 없으면 URL 규칙 기준
+  const headerOverride = useSyncExternalStore(subscribeHeader, () => getHeaderOverride(id));
+  const headerRule = resolveHeaderRule(currentUrl);
+  const isHeaderVisible = headerOverride?.visible ?? headerRule.visible;
+
+  // 전역 스토어 (기본 WebView만 상태 반영)
+  const store = useMemo(() => (isMain ? getWebviewActions() : null), [isMain]);
+
+  // 브릿지 클라이언트 스크립트 (페이지가 준비되면 다음 페이지용 새 토큰으로 교체)
+  const bridgeScript = useSyncExternalStore(bridge.subscribeClientScript, bridge.getClientScript);
+
+  // 새 창 지원 시 window.open 반환 객체 스크립트를 브릿지 클라이언트와 함께 주입
+  const supportsPopups = webview.performance.setSupportMultipleWindows;
+  const beforeContentScript = useMemo(
+    () => (supportsPopups ? `${bridgeScript}\n${POPUP_PARENT_SCRIPT}` : bridgeScript),
+    [bridgeScript, supportsPopups]
+  );
+
+  // 컴포넌트 마운트 시 초기화 (마운트 시점의 props로 1회 기록)
+  const mountInfo = useRef({ isMain, id, uri });
   useEffect(() => {
+    const { isMain: mainAtMount, id: idAtMount, uri: uriAtMount } = mountInfo.current;
     loadStartTime.current = Date.now();
-    debugLog('info', '앱 시작', `URL: ${webview.baseUrl}`);
+    debugLog('info', mainAtMount ? '앱 시작' : `WebView 시작 (${idAtMount})`, `URL: ${uriAtMount}`);
   }, []);
 
-  /**
-   * URL이 허용된 패턴과 일치하는지 확인
-   * allowedUrlPatterns에 정의된 패턴과 매칭
-   * - 와일드카드(*) 지원: https://*.example.com
-   * - 정확한 도메인 매칭: https://example.com
-   */
-  const isUrlAllowed = useCallback((url: string): boolean => {
-    const patterns = webview.allowedUrlPatterns as readonly string[];
-    
-    // 패턴이 비어있으면 모든 URL 허용
-    if (!patterns || patterns.length === 0) {
-      return true;
+  // 차단 메시지 표시 (Android: Toast, iOS: Alert)
+  const showBlockedMessage = useCallback((message: string) => {
+    if (Platform.OS === 'android') {
+      ToastAndroid.show(message, ToastAndroid.SHORT);
+    } else {
+      Alert.alert('', message);
     }
+  }, []);
 
-    // 특수 스킴은 항상 허용 (javascript:, about:, data: 등)
-    const specialSchemes = ['javascript:', 'about:', 'data:', 'blob:'];
-    if (specialSchemes.some(scheme => url.startsWith(scheme))) {
-      return true;
-    }
+  /**
+   * WebView에서 로드하지 않는 URL 처리 (resolveUrlAction 결과가 inline이 아닐 때)
+   * - inAppBrowser / external: 앱 내 브라우저 / 외부 앱으로 열기
+   * - block: 차단 후 메시지 표시
+   * - event: 로드하지 않고 웹에 이벤트 전달
+   * @param loadFallback intent:// 대상 앱이 없을 때 fallback URL 처리
+   */
+  const handleUrlAction = useCallback((
+    url: string,
+    { action, rule }: UrlDecision,
+    loadFallback: (fallbackUrl: string) => void
+  ) => {
+    debugLog('nav', `🔀 URL 처리 (${action})`, url);
 
-    // 브릿지 프로토콜은 항상 허용
-    if (url.startsWith('app://')) {
-      return true;
+    if (action === 'inAppBrowser') {
+      WebBrowser.openBrowserAsync(url).catch(err => {
+        console.error('[WebView] Failed to open in-app browser:', err);
+      });
+    } else if (action === 'external') {
+      console.log('[WebView] Opening external URL:', url);
+      openExternalUrl(url).then(fallbackUrl => {
+        if (fallbackUrl) loadFallback(fallbackUrl);
+      });
+    } else if (action === 'block') {
+      console.warn('[WebView] Blocked URL:', url);
+      showBlockedMessage(rule?.message ?? webview.blockedMessage);
+    } else if (action === 'event') {
+      bridge.sendToWeb(rule?.event ?? 'urlIntercepted', { url });
     }
+  }, [bridge, showBlockedMessage, webview.blockedMessage]);
 
-    // 각 패턴과 매칭 확인
-    return patterns.some(pattern => {
-      // 와일드카드 패턴을 정규표현식으로 변환
-      // https://*.example.com -> https://[^/]+\.example\.com
-      const regexPattern = pattern
-        .replace(/[.+?^${}()|[\]\\]/g, '\\$&') // 특수문자 이스케이프
-        .replace(/\\\*/g, '[^/]+'); // * -> [^/]+ (슬래시 제외 모든 문자)
-      
-      const regex = new RegExp(`^${regexPattern}`, 'i');
-      return regex.test(url);
-    });
-  }, [webview.allowedUrlPatterns]);
+  // WebView 안에서 URL로 이동 (이동 시 handleShouldStartLoadWithRequest로 다시 판정)
+  const loadInWebView = useCallback((url: string) => {
+    ref.current?.injectJavaScript(`window.location.href=${JSON.stringify(url)};true;`);
+  }, []);
 
   /**
-   * URL 요청 처리
-   * - 허용된 URL: WebView 내에서 로드
-   * - 허용되지 않은 URL: 외부 브라우저로 열기
+   * URL 요청 처리 (urlRules → 기본 스킴 처리 → allowedUrlPatterns 순으로 판정)
+   * inline이면 WebView 내에서 로드, 그 외는 handleUrlAction으로 처리
+   * iframe 등 하위 프레임은 inline일 때만 로드 (외부 앱 실행, 메시지 표시 없음)
    */
   const handleShouldStartLoadWithRequest = useCallback((request: ShouldStartLoadRequest): boolean => {
     const { url } = request;
-    
-    // 허용된 URL이면 WebView에서 로드
-    if (isUrlAllowed(url)) {
+    const decision = resolveUrlAction(url);
+    const isTopFrame = request.isTopFrame !== false;
+
+    if (decision.action === 'inline') {
       return true;
     }
 
-    // 허용되지 않은 URL은 외부 브라우저로 열기
-    console.log('[WebView] Opening external URL:', url);
-    Linking.openURL(url).catch(err => {
-      console.error('[WebView] Failed to open URL:', err);
-    });
-    
+    if (!isTopFrame) {
+      console.log(`[WebView] Subframe load skipped (${decision.action}):`, url);
+      return false;
+    }
+
+    handleUrlAction(url, decision, loadInWebView);
+
     // WebView에서는 로드하지 않음
     return false;
-  }, [isUrlAllowed]);
+  }, [handleUrlAction, loadInWebView]);
 
-  // 브릿지 초기화 (최초 1회)
-  useEffect(() => {
-    registerBuiltInHandlers();
+  /**
+   * 새 창 요청 처리 (window.open, target="_blank")
+   * URL 처리 규칙을 먼저 적용하고 (inline이 아니면 handleUrlAction으로 처리),
+   * WebView에서 로드할 URL만 popup 규칙에 따라 모달 WebView / 앱 내 브라우저 / 외부 브라우저로 열기
+   */
+  const handleOpenWindow = useCallback((event: WebViewOpenWindowEvent) => {
+    const openWindow = (targetUrl: string) => {
+      const decision = resolveUrlAction(targetUrl);
+      const target = decision.action === 'inline' ? getPopupTarget(targetUrl) : null;
+      debugLog('nav', `🪟 새 창 (${target ?? decision.action})`, targetUrl);
+
+      // 모달 외 방식은 부모 페이지의 window.open 반환 객체를 바로 닫힘 처리
+      if (target !== 'modal') {
+        ref.current?.injectJavaScript(POPUP_CLOSED_SCRIPT);
+      }
+
+      if (target === null) {
+        handleUrlAction(targetUrl, decision, openWindow);
+      } else if (target === 'modal') {
+        setPopupUrl(targetUrl);
+      } else if (target === 'inAppBrowser') {
+        WebBrowser.openBrowserAsync(targetUrl).catch(err => {
+          console.error('[WebView] Failed to open in-app browser:', err);
+        });
+      } else {
+        openExternalUrl(targetUrl);
+      }
+    };
+
+    openWindow(event.nativeEvent.targetUrl);
+  }, [handleUrlAction]);
+
+  // 팝업 닫기 (부모 페이지에 popupClosed 이벤트 전달)
+  const closePopup = useCallback(() => {
+    if (popupUrl === null) return;
+    setPopupUrl(null);
+    ref.current?.injectJavaScript(POPUP_CLOSED_SCRIPT);
+    bridge.sendToWeb('popupClosed', { url: popupUrl });
+  }, [popupUrl, bridge]);
+
+  // 팝업의 window.opener.postMessage → 부모 페이지 message 이벤트
+  const handleOpenerMessage = useCallback((message: unknown, targetOrigin: string, origin: string | null) => {
+    if (!isTargetOriginAllowed(targetOrigin, currentUrl)) {
+      console.warn(`[WebView] Popup postMessage blocked: target origin ${targetOrigin} does not match ${currentUrl}`);
+      return;
+    }
+    ref.current?.injectJavaScript(createMessageEventScript(message, origin));
+  }, [currentUrl]);
+
+  /**
+   * 딥링크 처리 (deepLink.delivery 설정에 따라 이벤트만 전달하거나 URL 로드 후 전달)
+   * load: 페이지 이동 후 브릿지가 다시 준비되면 대기 중인 deepLink 이벤트 전달
+   */
+  const handleDeepLink = useCallback((link: DeepLink) => {
+    debugLog('nav', '🔗 딥링크', link.url);
+    if (APP_CONFIG.deepLink.delivery === 'load') {
+      bridge.resetReady();
+      bridge.sendToWeb('deepLink', link);
+      ref.current?.injectJavaScript(`window.location.href=${JSON.stringify(link.url)};true;`);
+      return;
+    }
+    bridge.sendToWeb('deepLink', link);
+  }, [bridge]);
+
+  // 스크롤 위치 (맨 위일 때만 당겨서 새로고침)
+  const handleScroll = useCallback((event: { nativeEvent: { contentOffset: { y: number } } }) => {
+    setIsScrolledToTop(event.nativeEvent.contentOffset.y <= 0);
   }, []);
 
-  // WebView ref 설정
+  /**
+   * 당겨서 새로고침
+   * 웹(AppBridge.onRefresh)이 처리하면 데이터만 갱신, 처리하지 않으면 페이지 새로고침
+   * 웹 처리가 webTimeout을 넘기면 새로고침 없이 표시만 종료
+   */
+  const handleRefresh = useCallback(() => {
+    setIsRefreshing(true);
+    debugLog('nav', '🔄 당겨서 새로고침', currentUrl);
+
+    const askWeb = bridge.isReady()
+      ? bridge.callWeb<{ url: string }, boolean>(
+          REFRESH_REQUESTED_ACTION,
+          { url: currentUrl },
+          webview.pullToRefresh.webTimeout
+        ).then(handled => handled === true, err => err instanceof BridgeError && err.code === 'TIMEOUT')
+      : Promise.resolve(false);
+
+    askWeb.then(handled => {
+      if (!handled) {
+        ref.current?.reload();
+      }
+    }).finally(() => {
+      setIsRefreshing(false);
+    });
+  }, [bridge, currentUrl, webview.pullToRefresh.webTimeout]);
+
+  // 딥링크 수신 (기본 WebView, 첫 로드 완료 후부터 전달)
   useEffect(() => {
-    setBridgeWebView(ref.current);
-    return () => setBridgeWebView(null);
-  }, []);
+    if (!isMain || isInitialLoading) return;
+    setDeepLinkHandler(handleDeepLink);
+    return () => setDeepLinkHandler(null);
+  }, [isMain, isInitialLoading, handleDeepLink]);
+
+  // 브릿지 초기화 (최초 1회, 전역 핸들러는 기본 WebView에서 등록)
+  useEffect(() => {
+    if (isMain) {
+      registerBuiltInHandlers();
+    }
+  }, [isMain]);
+
+  // WebView ref 설정 (WebView 재생성 시 다시 연결)
+  useEffect(() => {
+    bridge.setWebView(ref.current);
+    return () => bridge.setWebView(null);
+  }, [bridge, webViewKey]);
+
+  // ID로 제어할 수 있도록 ref 등록 (언마운트 시 추가 브릿지 제거)
+  useEffect(() => {
+    webViewRefs.set(id, ref);
+    return () => {
+      if (webViewRefs.get(id) === ref) {
+        webViewRefs.delete(id);
+      }
+      destroyBridge(id);
+      setPullToRefreshOverride(id, null);
+      setHeaderOverride(id, null);
+      if (id === DEFAULT_BRIDGE_ID) {
+        getWebviewActions().resetWebviewState();
+      }
+    };
+  }, [id]);
+
+  // uri prop 변경 시 새 URL 로드
+  useEffect(() => {
+    setSourceUri(uri);
+  }, [uri]);
+
+  // 전역 스토어에 상태 반영 (기본 WebView)
+  useEffect(() => {
+    store?.setCurrentUrl(currentUrl);
+  }, [store, currentUrl]);
+
+  useEffect(() => {
+    store?.setCanGoBack(canGoBack);
+  }, [store, canGoBack]);
+
+  useEffect(() => {
+    store?.setPageTitle(pageTitle);
+  }, [store, pageTitle]);
+
+  useEffect(() => {
+    store?.setError(error);
+  }, [store, error]);
 
   // 디버그 상태바 표시 (2초 후 자동 숨김)
   const showDebugStatusBar = useCallback(() => {
@@ -183,7 +418,7 @@ export default function WebViewContainer() {
         setError({
           code: -1,
           description: '페이지 로딩 시간이 초과되었습니다.',
-          url: webview.baseUrl,
+          url: uri,
         });
         setIsInitialLoading(false);
         // 스플래시도 숨김
@@ -192,51 +427,128 @@ export default function WebViewContainer() {
         });
       }
     }, LOADING_TIMEOUT);
-  }, [clearLoadingTimeout, webview.baseUrl]);
+  }, [clearLoadingTimeout, uri]);
 
   // 컴포넌트 언마운트 시 타임아웃 클리어
   useEffect(() => {
     return () => clearLoadingTimeout();
   }, [clearLoadingTimeout]);
 
-  // Android 하드웨어 뒤로가기 버튼 처리
+  // 더 이상 뒤로 갈 수 없을 때 (backButton.rootAction)
+  const handleRootBack = useCallback(() => {
+    const { rootAction, doublePressInterval, exitMessage } = APP_CONFIG.backButton;
+
+    if (rootAction === 'home' && currentUrl.replace(/\/+$/, '') !== uri.replace(/\/+$/, '')) {
+      debugLog('nav', '◀ 뒤로가기 → 홈', uri);
+      ref.current?.injectJavaScript(`window.location.href=${JSON.stringify(uri)};true;`);
+      return;
+    }
+
+    if (rootAction === 'doublePressExit') {
+      const now = Date.now();
+      if (now - lastRootBackRef.current > doublePressInterval) {
+        lastRootBackRef.current = now;
+        ToastAndroid.show(exitMessage, ToastAndroid.SHORT);
+        return;
+      }
+    }
+
+    BackHandler.exitApp();
+  }, [currentUrl, uri]);
+
+  /**
+   * 뒤로가기 (하드웨어 버튼, 헤더 뒤로 버튼)
+   * 웹(AppBridge.onBack)이 먼저 처리하고, 처리하지 않으면 뒤로 이동, 기록이 없으면 onRoot 실행
+   */
+  const handleBackPress = useCallback((onRoot: () => void) => {
+    // 웹 응답 대기 중 다시 누른 경우 무시
+    if (isHandlingBackRef.current) return;
+    isHandlingBackRef.current = true;
+
+    const askWeb = bridge.isReady()
+      ? bridge.callWeb<{ canGoBack: boolean; url: string }, boolean>(
+          BACK_PRESSED_ACTION,
+          { canGoBack, url: currentUrl },
+          APP_CONFIG.backButton.webTimeout
+        ).then(handled => handled === true, () => false)
+      : Promise.resolve(false);
+
+    askWeb.then(handled => {
+      if (handled) {
+        debugLog('nav', '◀ 뒤로가기 (웹에서 처리)');
+      } else if (canGoBack && ref.current) {
+        ref.current.goBack();
+      } else {
+        onRoot();
+      }
+    }).finally(() => {
+      isHandlingBackRef.current = false;
+    });
+  }, [bridge, canGoBack, currentUrl]);
+
+  // Android 하드웨어 뒤로가기 버튼 처리 (기록이 없으면 backButton.rootAction)
   useFocusEffect(
     useCallback(() => {
       if (Platform.OS !== 'android') return;
 
       const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
-        if (canGoBack && ref.current) {
-          ref.current.goBack();
-          return true;
-        }
-        return false;
+        handleBackPress(handleRootBack);
+        return true;
       });
 
       return () => backHandler.remove();
-    }, [canGoBack])
+    }, [handleBackPress, handleRootBack])
   );
 
+  // 헤더 뒤로 버튼 (기록이 없으면 아무 동작 안 함)
+  const handleHeaderBack = useCallback(() => {
+    handleBackPress(() => {});
+  }, [handleBackPress]);
+
+  // 헤더 닫기 버튼 → 시작 URL로 이동
+  const handleHeaderClose = useCallback(() => {
+    debugLog('nav', '✕ 헤더 닫기', uri);
+    ref.current?.injectJavaScript(`window.location.href=${JSON.stringify(uri)};true;`);
+  }, [uri]);
+
+  // 헤더 오른쪽 버튼 → 웹에 headerButtonPressed 이벤트
+  const handleHeaderButtonPress = useCallback((buttonId: string) => {
+    debugLog('event', '🔘 헤더 버튼', buttonId);
+    bridge.sendToWeb('headerButtonPressed', { id: buttonId });
+  }, [bridge]);
+
   // 네비게이션 상태 변경 핸들러
   const handleNavigationStateChange = useCallback((navState: WebViewNavigation) => {
     setCanGoBack(navState.canGoBack);
+    store?.setCanGoForward(navState.canGoForward);
+    store?.setLastNavigation(navState);
     if (navState.url) {
       setCurrentUrl(navState.url);
       debugLog('nav', '📍 URL 변경', navState.url);
     }
-  }, []);
+  }, [store]);
 
   // 로드 시작 - 초기 로딩 시에만 스피너 표시
   const handleLoadStart = useCallback((syntheticEvent: any) => {
     loadStartTime.current = Date.now();
     const url = syntheticEvent?.nativeEvent?.url || currentUrl;
     debugLog('event', '🚀 로드 시작', url);
+
+    // 새 페이지가 준비 신호를 보낼 때까지 앱 → 웹 메시지 대기열 보관
+    bridge.resetReady();
+    store?.setIsLoading(true);
+
+    // 이전 페이지에서 웹이 바꾼 당겨서 새로고침 / 헤더 설정 초기화
+    setPullToRefreshOverride(id, null);
+    setHeaderOverride(id, null);
+    setIsScrolledToTop(true);
     
     if (!hasLoadedOnce.current) {
       setIsInitialLoading(true);
       startLoadingTimeout();
     }
     setError(null);
-  }, [startLoadingTimeout]);
+  }, [startLoadingTimeout, bridge, currentUrl, id, store]);
 
   // 로드 진행률 핸들러
   const handleLoadProgress = useCallback((event: WebViewProgressEvent) => {
@@ -259,8 +571,12 @@ export default function WebViewContainer() {
   // 로드 완료
   const handleLoadEnd = useCallback(() => {
     clearLoadingTimeout();
+    store?.setIsLoading(false);
     const loadTime = Date.now() - loadStartTime.current;
     debugLog('success', '✅ 로드 완료', `${loadTime}ms`);
+
+    // SPA 내부 이동 등으로 문서가 유지된 경우 준비 신호 재전송
+    ref.current?.injectJavaScript('window.AppBridge && window.AppBridge._announceReady && window.AppBridge._announceReady();true;');
     
     if (!hasLoadedOnce.current) {
       hasLoadedOnce.current = true;
@@ -269,19 +585,35 @@ export default function WebViewContainer() {
     }
     
     showDebugStatusBar();
-  }, [doHideSplash, clearLoadingTimeout, showDebugStatusBar]);
+  }, [doHideSplash, clearLoadingTimeout, showDebugStatusBar, store]);
 
   // 웹에서 보내는 메시지 처리
   const handleMessage = useCallback((event: WebViewMessageEvent) => {
     const messageData = event.nativeEvent.data;
 
-    // 브릿지 메시지 처리 시도
-    if (handleBridgeMessage(messageData)) {
+    // 브릿지 메시지 처리 시도 (출처 URL 전달)
+    if (bridge.handleMessage(messageData, { url: event.nativeEvent.url })) {
       return;
     }
 
     try {
       const data = JSON.parse(messageData);
+
+      // window.open 반환 객체의 postMessage / close (팝업으로 전달)
+      if (data.type === POPUP_PARENT_MESSAGE) {
+        popupRef.current?.postMessage(data.data?.message, data.data?.targetOrigin ?? '*', getUrlOrigin(event.nativeEvent.url));
+        return;
+      }
+      if (data.type === POPUP_CLOSE_REQUEST) {
+        closePopup();
+        return;
+      }
+
+      // document.title 변경 (네이티브 헤더 제목)
+      if (data.type === 'TITLE_CHANGED') {
+        setPageTitle(typeof data.title === 'string' ? data.title : '');
+        return;
+      }
       
       // DOM 상태 체크 (빈 화면 자동 복구용)
       if (data.type === 'DEBUG_DOM_STATE') {
@@ -327,7 +659,7 @@ export default function WebViewContainer() {
     } catch {
       // JSON이 아닌 메시지는 무시
     }
-  }, [doHideSplash]);
+  }, [doHideSplash, bridge, closePopup]);
 
   // 에러 처리 - 에러 시에도 스플래시 숨김
   const handleError = useCallback((event: WebViewErrorEvent) => {
@@ -387,6 +719,60 @@ export default function WebViewContainer() {
     ref.current?.reload();
   }, []);
 
+  // URL로 이동 (에러 화면에서는 WebView가 없으므로 URL 처리 규칙 판정 후 inline URL로 다시 생성)
+  const navigateTo = useCallback((url: string) => {
+    debugLog('nav', '➡️ 이동 요청', url);
+    if (!error) {
+      loadInWebView(url);
+      return;
+    }
+
+    const recreate = (targetUrl: string) => {
+      const decision = resolveUrlAction(targetUrl);
+      if (decision.action !== 'inline') {
+        handleUrlAction(targetUrl, decision, recreate);
+        return;
+      }
+      hasLoadedOnce.current = false;
+      emptyBodyRetryCount.current = 0;
+      setSourceUri(targetUrl);
+      setError(null);
+      setIsInitialLoading(true);
+    };
+    recreate(url);
+  }, [error, handleUrlAction, loadInWebView]);
+
+  // 새로고침 (에러 화면에서는 재시도)
+  const reloadWebView = useCallback(() => {
+    if (error) {
+      handleRetry();
+      return;
+    }
+    ref.current?.reload();
+  }, [error, handleRetry]);
+
+  // 스토어 navigate / reload 요청 처리 (이 WebView 대상만)
+  useEffect(() => {
+    return useAppStore.subscribe(state => state.command, command => {
+      if (!command || command.webViewId !== id) return;
+      if (command.type === 'navigate') {
+        navigateTo(command.url);
+      } else {
+        reloadWebView();
+      }
+    });
+  }, [id, navigateTo, reloadWebView]);
+
+  // 스토어에서 에러를 지우면 (setError(null)) 재시도 (기본 WebView)
+  useEffect(() => {
+    if (!store || !error) return;
+    return useAppStore.subscribe(state => state.error, storeError => {
+      if (storeError === null) {
+        handleRetry();
+      }
+    });
+  }, [store, error, handleRetry]);
+
   // 에러 타입에 따른 메시지 생성
   const getErrorInfo = useCallback((err: WebViewError) => {
     const code = err.code;
@@ -490,107 +876,144 @@ export default function WebViewContainer() {
 
   return (
     <View style={styles.container}>
-      <WebView
-        key={webViewKey}
-        ref={ref}
-        source={{ uri: webview.baseUrl }}
-        style={styles.webview}
-        // User-Agent
-        userAgent={webview.userAgent}
-        // 기본 옵션
-        javaScriptEnabled={webview.options.javaScriptEnabled}
-        domStorageEnabled={webview.options.domStorageEnabled}
-        thirdPartyCookiesEnabled={webview.options.thirdPartyCookiesEnabled}
-        mediaPlaybackRequiresUserAction={webview.options.mediaPlaybackRequiresUserAction}
-        mixedContentMode={webview.options.mixedContentMode}
-        cacheEnabled={cacheMode && webview.options.cacheEnabled}
-        allowsInlineMediaPlayback={webview.options.allowsInlineMediaPlayback}
-        allowsBackForwardNavigationGestures={webview.options.allowsBackForwardNavigationGestures}
-        allowFileAccess={webview.options.allowFileAccess}
-        // 세션 유지
-        sharedCookiesEnabled={true}
-        incognito={!cacheMode}
-        // 성능 최적화 옵션
-        androidLayerType={webview.performance.androidLayerType}
-        overScrollMode={webview.performance.overScrollMode}
-        textZoom={webview.performance.textZoom}
-        nestedScrollEnabled={webview.performance.nestedScrollEnabled}
-        showsHorizontalScrollIndicator={!webview.performance.hideScrollIndicators}
-        showsVerticalScrollIndicator={!webview.performance.hideScrollIndicators}
-        allowsFullscreenVideo={webview.performance.allowsFullscreenVideo}
-        startInLoadingState={false}
-        originWhitelist={['*']}
-        // Android 추가 성능 옵션
-        setSupportMultipleWindows={webview.performance.setSupportMultipleWindows}
-        setBuiltInZoomControls={false}
-        setDisplayZoomControls={false}
-        // 이벤트 핸들러
-        onNavigationStateChange={handleNavigationStateChange}
-        onLoadStart={handleLoadStart}
-        onLoadEnd={handleLoadEnd}
-        onLoadProgress={handleLoadProgress}
-        onError={handleError}
-        onHttpError={handleHttpError}
-        onMessage={handleMessage}
-        onShouldStartLoadWithRequest={handleShouldStartLoadWithRequest}
-        // 렌더링 프로세스 종료 시 자동 재로드
-        onRenderProcessGone={handleRenderProcessGone}
-        onContentProcessDidTerminate={handleContentProcessDidTerminate}
-        // 브릿지 클라이언트 주입 (페이지 로드 전)
-        injectedJavaScriptBeforeContentLoaded={BRIDGE_CLIENT_SCRIPT}
-        // 페이지 로드 후 스크립트
-        injectedJavaScript={`
-          (function() {
-            // 중복 실행 방지
-            if (window.__pageReadySent) return;
-            window.__pageReadySent = true;
+      {/* 네이티브 헤더 (header.rules / setHeader) */}
+      {isHeaderVisible && (
+        <NativeHeader
+          title={headerOverride?.title ?? headerRule.title ?? pageTitle}
+          showBackButton={headerOverride?.showBackButton ?? (APP_CONFIG.header.showBackButton && canGoBack)}
+          showCloseButton={headerOverride?.showCloseButton ?? APP_CONFIG.header.showCloseButton}
+          rightButtons={headerOverride?.rightButtons ?? []}
+          onBack={handleHeaderBack}
+          onClose={handleHeaderClose}
+          onButtonPress={handleHeaderButtonPress}
+        />
+      )}
+      <PullToRefreshView
+        enabled={webview.pullToRefresh.enabled}
+        canRefresh={canPullToRefresh}
+        refreshing={isRefreshing}
+        onRefresh={handleRefresh}
+      >
+        <WebView
+          key={webViewKey}
+          ref={ref}
+          source={{ uri: sourceUri }}
+          style={styles.webview}
+          // User-Agent
+          userAgent={webview.userAgent}
+          // 기본 옵션
+          javaScriptEnabled={webview.options.javaScriptEnabled}
+          domStorageEnabled={webview.options.domStorageEnabled}
+          thirdPartyCookiesEnabled={webview.options.thirdPartyCookiesEnabled}
+          mediaPlaybackRequiresUserAction={webview.options.mediaPlaybackRequiresUserAction}
+          mixedContentMode={webview.options.mixedContentMode}
+          cacheEnabled={cacheMode && webview.options.cacheEnabled}
+          cacheMode={offlineMode && !isOnline ? 'LOAD_CACHE_ELSE_NETWORK' : 'LOAD_DEFAULT'}
+          allowsInlineMediaPlayback={webview.options.allowsInlineMediaPlayback}
+          allowsBackForwardNavigationGestures={webview.options.allowsBackForwardNavigationGestures}
+          allowFileAccess={webview.options.allowFileAccess}
+          // 세션 유지
+          sharedCookiesEnabled={true}
+          incognito={!cacheMode}
+          // 성능 최적화 옵션
+          androidLayerType={webview.performance.androidLayerType}
+          overScrollMode={webview.performance.overScrollMode}
+          textZoom={webview.performance.textZoom}
+          nestedScrollEnabled={webview.performance.nestedScrollEnabled}
+          showsHorizontalScrollIndicator={!webview.performance.hideScrollIndicators}
+          showsVerticalScrollIndicator={!webview.performance.hideScrollIndicators}
+          allowsFullscreenVideo={webview.performance.allowsFullscreenVideo}
+          startInLoadingState={false}
+          originWhitelist={['*']}
+          // Android 추가 성능 옵션
+          setSupportMultipleWindows={supportsPopups}
+          javaScriptCanOpenWindowsAutomatically={supportsPopups}
+          setBuiltInZoomControls={false}
+          setDisplayZoomControls={false}
+          // 이벤트 핸들러
+          onNavigationStateChange={handleNavigationStateChange}
+          onLoadStart={handleLoadStart}
+          onLoadEnd={handleLoadEnd}
+          onLoadProgress={handleLoadProgress}
+          onError={handleError}
+          onHttpError={handleHttpError}
+          onMessage={handleMessage}
+          onShouldStartLoadWithRequest={handleShouldStartLoadWithRequest}
+          onOpenWindow={handleOpenWindow}
+          onScroll={webview.pullToRefresh.enabled ? handleScroll : undefined}
+          // 렌더링 프로세스 종료 시 자동 재로드
+          onRenderProcessGone={handleRenderProcessGone}
+          onContentProcessDidTerminate={handleContentProcessDidTerminate}
+          // 브릿지 클라이언트 주입 (페이지 로드 전)
+          injectedJavaScriptBeforeContentLoaded={beforeContentScript}
+          // 페이지 로드 후 스크립트
+          injectedJavaScript={`
+            (function() {
+              // 중복 실행 방지
+              if (window.__pageReadySent) return;
+              window.__pageReadySent = true;
             
-            // 디버그: DOM 상태 확인
-            function checkDOMState() {
-              var bodyLen = document.body ? document.body.innerHTML.length : 0;
-              var bodyBg = document.body ? window.getComputedStyle(document.body).backgroundColor : 'N/A';
+              // 디버그: DOM 상태 확인
+              function checkDOMState() {
+                var bodyLen = document.body ? document.body.innerHTML.length : 0;
+                var bodyBg = document.body ? window.getComputedStyle(document.body).backgroundColor : 'N/A';
               
-              window.ReactNativeWebView.postMessage(JSON.stringify({ 
-                type: 'DEBUG_DOM_STATE',
-                bodyLength: bodyLen,
-                bodyBg: bodyBg
-              }));
-            }
+                window.ReactNativeWebView.postMessage(JSON.stringify({ 
+                  type: 'DEBUG_DOM_STATE',
+                  bodyLength: bodyLen,
+                  bodyBg: bodyBg
+                }));
+              }
             
-            // 페이지 로드 감지 (한 번만)
-            function sendPageReady() {
-              if (window.__pageReadyEventSent) return;
-              window.__pageReadyEventSent = true;
+              // 페이지 로드 감지 (한 번만)
+              function sendPageReady() {
+                if (window.__pageReadyEventSent) return;
+                window.__pageReadyEventSent = true;
               
-              checkDOMState();
-              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'PAGE_READY' }));
-            }
+                checkDOMState();
+                window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'PAGE_READY' }));
+              }
             
-            if (document.readyState === 'complete') {
-              sendPageReady();
-            } else {
-              window.addEventListener('load', sendPageReady, { once: true });
-            }
+              if (document.readyState === 'complete') {
+                sendPageReady();
+              } else {
+                window.addEventListener('load', sendPageReady, { once: true });
+              }
             
-            // 에러 감지
-            if (!window.__errorHandlerSet) {
-              window.__errorHandlerSet = true;
-              window.onerror = function(msg, url, line, col, error) {
-                window.ReactNativeWebView.postMessage(JSON.stringify({
-                  type: 'JS_ERROR',
-                  message: msg
-                }));
-              };
-            }
+              // 제목 변경 감지 (SPA의 document.title 변경 포함)
+              var lastTitle = null;
+              function sendTitle() {
+                if (document.title === lastTitle) return;
+                lastTitle = document.title;
+                window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'TITLE_CHANGED', title: lastTitle }));
+              }
+              sendTitle();
+              new MutationObserver(sendTitle).observe(document.head || document.documentElement, {
+                subtree: true,
+                childList: true,
+                characterData: true
+              });
             
-            // 빈 화면 감지를 위해 여러 번 체크 (1초, 2초, 5초)
-            setTimeout(checkDOMState, 1000);
-            setTimeout(checkDOMState, 2000);
-            setTimeout(checkDOMState, 5000);
-          })();
-          true;
-        `}
-      />
+              // 에러 감지
+              if (!window.__errorHandlerSet) {
+                window.__errorHandlerSet = true;
+                window.onerror = function(msg, url, line, col, error) {
+                  window.ReactNativeWebView.postMessage(JSON.stringify({
+                    type: 'JS_ERROR',
+                    message: msg
+                  }));
+                };
+              }
+            
+              // 빈 화면 감지를 위해 여러 번 체크 (1초, 2초, 5초)
+              setTimeout(checkDOMState, 1000);
+              setTimeout(checkDOMState, 2000);
+              setTimeout(checkDOMState, 5000);
+            })();
+            true;
+          `}
+        />
+      </PullToRefreshView>
       
       {/* 로딩 인디케이터 - 초기 로딩 시에만 표시 */}
       {isInitialLoading && (
@@ -624,21 +1047,35 @@ export default function WebViewContainer() {
         </View>
       )}
       
-      {/* 디버그 오버레이 */}
-      {debug.enabled && (
+      {/* 팝업 모달 (window.open, target="_blank") */}
+      <PopupWebView
+        ref={popupRef}
+        url={popupUrl}
+        onClose={closePopup}
+        onOpenerMessage={handleOpenerMessage}
+        onUrlAction={handleUrlAction}
+      />
+      
+      {/* 디버그 오버레이 (기본 WebView에만 표시) */}
+      {debug.enabled && isMain && (
         <DebugOverlay ref={debugOverlayRef} visible={true} />
       )}
     </View>
   );
 }
 
-// 외부에서 WebView 제어를 위한 헬퍼 함수들
+// ID로 WebView 조회 (미지정 시 기본 WebView)
+const getWebViewById = (id: string = DEFAULT_BRIDGE_ID) => webViewRefs.get(id)?.current;
+
+// 외부에서 WebView 제어를 위한 헬퍼 함수들 (id 미지정 시 기본 WebView)
 export const webViewControls = {
-  goBack: () => webViewRef?.current?.goBack(),
-  goForward: () => webViewRef?.current?.goForward(),
-  reload: () => webViewRef?.current?.reload(),
-  stopLoading: () => webViewRef?.current?.stopLoading(),
-  injectJavaScript: (script: string) => webViewRef?.current?.injectJavaScript(script),
+  goBack: (id?: string) => getWebViewById(id)?.goBack(),
+  goForward: (id?: string) => getWebViewById(id)?.goForward(),
+  reload: (id?: string) => getWebViewById(id)?.reload(),
+  stopLoading: (id?: string) => getWebViewById(id)?.stopLoading(),
+  injectJavaScript: (script: string, id?: string) => getWebViewById(id)?.injectJavaScript(script),
+  /** 마운트된 WebView ID 목록 */
+  getIds: () => Array.from(webViewRefs.keys()),
 };
 
 const styles = StyleSheet.create({
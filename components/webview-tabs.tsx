@@ -0,0 +1,89 @@
+/**
+ * 하단 탭 WebView 컴포넌트
+ * APP_CONFIG.tabs의 탭마다 WebViewContainer를 하나씩 두고 탭을 바꿔도 유지 (방문 기록도 탭별로 유지)
+ * 선택된 탭을 다시 누르면 해당 페이지에 scrollToTop 이벤트 전달
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import React, { useEffect, useRef, useSyncExternalStore } from 'react';
+import { useColorScheme } from 'react-native';
+
+import { debugLog } from '@/components/debug-overlay';
+import WebViewContainer from '@/components/webview-container';
+import { APP_CONFIG } from '@/constants/app-config';
+import { getBridge } from '@/lib/bridge';
+import { DEFAULT_BRIDGE_ID } from '@/lib/bridge-client';
+import {
+  getTabItems,
+  getTabState,
+  resolveTabUrl,
+  setActiveTab,
+  setTabSelectHandler,
+  subscribeTabs,
+} from '@/lib/tabs';
+
+const Tab = createBottomTabNavigator();
+
+export default function WebViewTabs() {
+  const colorScheme = useColorScheme();
+  const { tabs } = APP_CONFIG;
+  const { badges, barVisible } = useSyncExternalStore(subscribeTabs, getTabState);
+
+  // 탭 네비게이터 (selectTab 처리용, 탭 화면 포커스 시 갱신)
+  const navigationRef = useRef<{ navigate: (name: string) => void } | null>(null);
+
+  // 브릿지 selectTab → 탭 전환
+  useEffect(() => {
+    setTabSelectHandler(tabId => navigationRef.current?.navigate(tabId));
+    return () => setTabSelectHandler(null);
+  }, []);
+
+  // 내장 핸들러, 딥링크는 'main' 탭에서 처리
+  useEffect(() => {
+    if (!getTabItems().some(tab => tab.id === DEFAULT_BRIDGE_ID)) {
+      console.warn(`[Tabs] No tab with id "${DEFAULT_BRIDGE_ID}": built-in bridge handlers and deep links are disabled`);
+    }
+  }, []);
+
+  const backgroundColor = colorScheme === 'dark' ? tabs.darkBackgroundColor : tabs.backgroundColor;
+
+  return (
+    <Tab.Navigator
+      screenOptions={{
+        headerShown: false,
+        tabBarActiveTintColor: tabs.activeTintColor,
+        tabBarInactiveTintColor: tabs.inactiveTintColor,
+        tabBarStyle: barVisible ? { backgroundColor } : { display: 'none' },
+      }}
+      screenListeners={({ navigation, route }) => ({
+        focus: () => {
+          navigationRef.current = navigation;
+          setActiveTab(route.name);
+        },
+        // 선택된 탭을 다시 누르면 맨 위로 스크롤 요청
+        tabPress: () => {
+          if (!navigation.isFocused()) return;
+          debugLog('nav', '⬆️ 탭 다시 누름', route.name);
+          getBridge(route.name)?.sendToWeb('scrollToTop', { tabId: route.name });
+        },
+      })}
+    >
+      {getTabItems().map(tab => (
+        <Tab.Screen
+          key={tab.id}
+          name={tab.id}
+          options={{
+            title: tab.label,
+            tabBarBadge: badges[tab.id],
+            tabBarIcon: ({ focused, color, size }) => (
+              <Ionicons name={focused ? tab.activeIcon ?? tab.icon : tab.icon} color={color} size={size} />
+            ),
+          }}
+        >
+          {() => <WebViewContainer id={tab.id} uri={resolveTabUrl(tab.url)} />}
+        </Tab.Screen>
+      ))}
+    </Tab.Navigator>
+  );
+}
@@ -5,6 +5,13 @@
 
 import Constants from 'expo-constants';
 
+import type { BridgeAccessRule } from '@/lib/bridge-policy';
+import type { DeepLinkDelivery, DeepLinkRewrite } from '@/lib/deep-link';
+import type { HeaderRule } from '@/lib/header';
+import type { PopupRule, PopupTarget } from '@/lib/popup';
+import type { TabItem } from '@/lib/tabs';
+import type { UrlAction, UrlRule } from '@/lib/url-policy';
+
 // app.json에서 가져온 값들
 const expoConfig = Constants.expoConfig;
 
@@ -15,6 +22,8 @@ export const APP_CONFIG = {
     version: expoConfig?.version ?? '1.0.0',
     bundleId: expoConfig?.android?.package ?? expoConfig?.ios?.bundleIdentifier ?? 'com.app.webwrapper',
     slug: expoConfig?.slug ?? 'webapp',
+    // URL 스킴 (딥링크, app.json의 scheme)
+    schemes: ([] as string[]).concat(expoConfig?.scheme ?? []).map(scheme => scheme.toLowerCase()),
   },
 
   // 웹뷰 설정
@@ -80,7 +89,9 @@ export const APP_CONFIG = {
       loadsImagesAutomatically: true,
       // 뷰포트 초기 스케일
       initialScale: 100,
-      // 세이프에어리어 포함
+      // 새 창(window.open, target="_blank") 지원 - 팝업 기능은 opt-in (켜려면 이 값만 true로 변경)
+      // true: urlRules 판정 후 popup 설정에 따라 모달/앱 내 브라우저/외부 브라우저로 열기
+      // false(기본): 같은 WebView에서 이동 (모달, window.opener.postMessage, window.close 미사용)
       setSupportMultipleWindows: false,
       // 포커스 시 자동 줌 비활성화
       setUseWideViewPort: true,
@@ -89,11 +100,89 @@ export const APP_CONFIG = {
     // 커스텀 User-Agent
     userAgent: 'webapp-wrapper',
 
-    // 허용된 URL 패턴 (보안)
+    // 허용된 URL 패턴 (보안) - urlRules에 일치하는 규칙이 없을 때 WebView에서 로드할 URL
     allowedUrlPatterns: [
       'https://webapp-sample.example-page.cc/',
       'https://*.example-page.cc/',
     ],
+
+    // URL 처리 규칙 (위에서부터 처음 일치한 규칙 적용)
+    // - scheme / host / path로 비교 (지정하지 않은 항목은 모두 일치)
+    //   host: 'example.com' 정확히 일치, '*.example.com' 하위 도메인
+    //   path: '/login' 정확히 일치, '/admin/*' 하위 경로
+    // - action: 'inline' (WebView에서 로드) | 'inAppBrowser' (앱 내 브라우저) | 'external' (외부 앱)
+    //           'block' (차단 후 message 표시) | 'event' (웹에 event 이벤트 전달, 기본 'urlIntercepted')
+    // 규칙이 없으면 tel:, mailto:, sms:, market:, intent:는 외부 앱으로 열고 나머지는 allowedUrlPatterns로 판단
+    urlRules: [
+      // { scheme: 'https', host: 'pay.example.com', action: 'inAppBrowser' },
+      // { host: '*.example-page.cc', path: '/admin/*', action: 'block', message: '앱에서 지원하지 않는 페이지입니다.' },
+      // { scheme: 'myapp', action: 'event', event: 'customSchemeOpened' },
+    ] as readonly UrlRule[],
+
+    // 일치하는 규칙이 없고 allowedUrlPatterns에도 없는 URL 처리 방식
+    defaultUrlAction: 'external' as UrlAction,
+
+    // 차단 시 기본 메시지
+    blockedMessage: '이 페이지는 앱에서 열 수 없습니다.',
+
+    // 팝업 설정 (window.open, target="_blank") - performance.setSupportMultipleWindows가 true일 때만 사용
+    // - modal: 앱 내 모달 WebView (window.opener.postMessage, window.close 지원)
+    // - inAppBrowser: 앱 내 브라우저 (expo-web-browser)
+    // - external: 외부 브라우저
+    popup: {
+      // URL 패턴별 열기 방식 (위에서부터 처음 일치한 규칙 적용)
+      rules: [
+        { pattern: 'https://*.example-page.cc/', target: 'modal' },
+      ] as readonly PopupRule[],
+      // 일치하는 규칙이 없을 때 열기 방식
+      defaultTarget: 'modal' as PopupTarget,
+      // 모달 상단바 배경색
+      headerBackgroundColor: '#ffffff',
+      // 다크모드 모달 상단바 배경색
+      darkHeaderBackgroundColor: '#1a1a1a',
+    },
+
+    // 당겨서 새로고침 (페이지가 맨 위로 스크롤된 상태에서만 동작)
+    // 웹이 AppBridge.onRefresh로 처리하면 데이터만 갱신, 처리하지 않으면 페이지 새로고침
+    pullToRefresh: {
+      // 사용 여부
+      enabled: false,
+      // 사용할 URL 패턴 (비어 있으면 전체)
+      includePatterns: [] as readonly string[],
+      // 사용하지 않을 URL 패턴 (includePatterns보다 우선)
+      excludePatterns: [
+        // 'https://webapp-sample.example-page.cc/map',
+      ] as readonly string[],
+      // 웹 처리(refreshRequested) 응답 대기 시간 (ms)
+      webTimeout: 10000,
+    },
+  },
+
+  // 브릿지 설정
+  bridge: {
+    // 출처별 액션 접근 제어
+    // 메시지를 보낸 페이지 URL을 위에서부터 비교해 처음 일치한 규칙 적용
+    // - origin: 페이지 URL 패턴 (allowedUrlPatterns와 동일한 와일드카드 문법)
+    // - allow: 허용 액션 ('*' 전체, 'get*' 접두사 등). 지정 시 목록 외 액션은 차단
+    // - deny: 차단 액션 (allow보다 우선)
+    accessRules: [
+      { origin: 'https://webapp-sample.example-page.cc/', allow: ['*'] },
+      {
+        origin: 'https://*.example-page.cc/',
+        deny: ['activateKeepAwake', 'startScreenPinning', 'takePhoto', 'startCamera', 'startRecording', 'getClipboard'],
+      },
+    ] as readonly BridgeAccessRule[],
+    // 일치하는 규칙이 없을 때 기본 동작: 'allow' | 'deny'
+    defaultAccess: 'allow' as 'allow' | 'deny',
+    // 메시지 서명 (HMAC-SHA256 + 타임스탬프 + nonce로 재전송 차단)
+    // 웹의 crypto.subtle을 사용하므로 https 페이지에서만 동작
+    signing: {
+      enabled: false as boolean,
+      // 허용하는 타임스탬프 오차 (ms)
+      maxClockSkew: 30000,
+    },
+    // 웹 → 앱 청크 전송(큰 Blob/File) 최대 크기 (bytes, 수신 중/대기 중인 임시 파일 합계)
+    maxBinaryTransferSize: 50 * 1024 * 1024,
   },
 
   // 네트워크 설정
@@ -172,6 +261,79 @@ export const APP_CONFIG = {
     buttonStyle: 'dark' as 'light' | 'dark',
   },
 
+  // 하드웨어 뒤로가기 버튼 설정 (Android 전용)
+  // 웹 페이지에 먼저 backPressed 요청(AppBridge.onBack)을 보내고, 웹이 처리하지 않으면 WebView 뒤로 이동
+  backButton: {
+    // 웹 응답 대기 시간 (ms, 초과 시 기본 동작)
+    webTimeout: 300,
+
+    // 더 이상 뒤로 갈 수 없을 때 동작
+    // 'exit': 앱 종료
+    // 'doublePressExit': 안내 토스트 표시 후 한 번 더 누르면 종료
+    // 'home': baseUrl로 이동 (이미 baseUrl이면 종료)
+    rootAction: 'exit' as 'exit' | 'doublePressExit' | 'home',
+
+    // 두 번 누름 인식 시간 (ms, doublePressExit)
+    doublePressInterval: 2000,
+
+    // 종료 안내 메시지 (doublePressExit)
+    exitMessage: '한 번 더 누르면 종료됩니다',
+  },
+
+  // 하단 탭 설정
+  // 탭마다 별도 WebView(브릿지 ID = 탭 id)를 유지하여 탭을 바꿔도 페이지와 방문 기록 유지
+  // 'main' 탭에서 내장 브릿지 핸들러 등록, 딥링크 수신, 디버그 오버레이 표시
+  tabs: {
+    // 탭 모드 사용 여부 (false면 WebView 하나)
+    enabled: false,
+
+    // 탭 목록 (icon / activeIcon: Ionicons 이름, url: '/'로 시작하면 baseUrl 기준)
+    items: [
+      { id: 'main', label: '홈', icon: 'home-outline', activeIcon: 'home', url: '/' },
+      { id: 'search', label: '검색', icon: 'search-outline', activeIcon: 'search', url: '/search' },
+      { id: 'my', label: '마이', icon: 'person-outline', activeIcon: 'person', url: '/my' },
+    ] as readonly TabItem[],
+
+    // 선택된 탭 색상
+    activeTintColor: '#007AFF',
+    // 선택되지 않은 탭 색상
+    inactiveTintColor: '#8e8e93',
+    // 탭바 배경색
+    backgroundColor: '#ffffff',
+    // 다크모드 탭바 배경색
+    darkBackgroundColor: '#1a1a1a',
+  },
+
+  // 네이티브 헤더 설정 (WebView 위 제목, 뒤로/닫기 버튼, 웹에서 지정한 오른쪽 버튼)
+  // 웹에서 setHeader로 페이지별로 덮어쓸 수 있음 (페이지 이동 시 초기화)
+  header: {
+    // 일치하는 규칙이 없을 때 표시 여부
+    visible: false,
+
+    // URL별 표시 규칙 (위에서부터 처음 일치한 규칙 적용, scheme / host / path 비교는 urlRules와 같음)
+    // title을 지정하면 document.title 대신 사용
+    rules: [
+      // { path: '/settings/*', visible: true },
+      // { path: '/terms', visible: true, title: '이용약관' },
+    ] as readonly HeaderRule[],
+
+    // 뒤로 갈 수 있을 때 뒤로 버튼 표시
+    showBackButton: true,
+    // 닫기 버튼 표시 (누르면 시작 URL로 이동)
+    showCloseButton: false,
+
+    // 헤더 높이
+    height: 48,
+    // 배경색
+    backgroundColor: '#ffffff',
+    // 다크모드 배경색
+    darkBackgroundColor: '#1a1a1a',
+    // 제목 / 버튼 색상
+    tintColor: '#1a1a1a',
+    // 다크모드 제목 / 버튼 색상
+    darkTintColor: '#ffffff',
+  },
+
   // SafeArea 설정
   safeArea: {
     // SafeArea 사용 여부 (false면 웹뷰가 상태바 뒤까지 확장)
@@ -233,21 +395,48 @@ export const APP_CONFIG = {
     },
   },
 
-  // 기능 플래그 (추후 확장용)
+  // 기능 플래그 (기본값, 런타임 덮어쓰기는 featureFlags 참고)
+  // 플러그인 매니페스트의 feature 항목으로 브릿지 모듈 등록 여부 결정
   features: {
+    // 기기 제어 브릿지 (화면 방향, 상태바, 네비게이션 바, 화면 고정, 화면 켜짐 유지)
+    // 기본 켜짐: 기존처럼 모든 빌드에서 등록, 끄면 해당 액션은 UNKNOWN_ACTION
+    deviceControl: true,
+    // 예약 (해당 모듈 없음): 모듈 추가 시 매니페스트 항목에 feature로 지정
     // Firebase 푸시 알림
     pushNotifications: false,
     // 앱 내 알림
     localNotifications: false,
-    // 기기 제어 기능
-    deviceControl: false,
     // 생체인증
     biometrics: false,
     // 딥링크
     deepLinking: false,
-    // 오프라인 모드
+    // 오프라인 모드 (오프라인일 때 오프라인 화면 대신 캐시된 페이지 사용)
     offlineMode: false,
   },
+
+  // 딥링크 설정 (features.deepLinking이 켜져 있을 때 사용)
+  // 커스텀 스킴(app.json scheme) 링크와 hosts의 https 앱 링크를 baseUrl 기준 WebView URL로 변환
+  deepLink: {
+    // 앱 링크로 받을 https 호스트 (app.json에 Android intentFilters / iOS associatedDomains 추가 필요, 문서 참고)
+    hosts: ['webapp-sample.example-page.cc'] as readonly string[],
+    // 경로 변환 규칙 (위에서부터 처음 일치한 규칙 적용, :name 은 경로 한 단계, * 는 나머지 전체)
+    rewrites: [
+      // { from: '/product/:id', to: '/shop/products/:id' },
+      // { from: '/event/*', to: '/promotion/*' },
+    ] as readonly DeepLinkRewrite[],
+    // 전달 방식: 'event' (deepLink 이벤트만 전달, SPA 라우터가 이동) | 'load' (WebView에서 URL 로드 후 이벤트 전달)
+    delivery: 'event' as DeepLinkDelivery,
+  },
+
+  // 기능 플래그 런타임 덮어쓰기 (불러오기 실패 시 features 기본값 사용)
+  featureFlags: {
+    // 앱 문서 디렉토리의 JSON 파일 ({ "deviceControl": false } 형태, 원격 값보다 우선)
+    localFile: 'feature-flags.json' as string,
+    // 원격 설정 URL (빈 문자열이면 사용 안 함). 응답: { "deepLinking": true } 또는 { "features": { ... } }
+    remoteUrl: '' as string,
+    // 원격 요청 타임아웃 (ms)
+    timeout: 5000,
+  },
 } as const;
 
 // 타입 추출
@@ -1,10 +1,18 @@
 // https://docs.expo.dev/guides/using-eslint/
 const { defineConfig } = require('eslint/config');
 const expoConfig = require('eslint-config-expo/flat');
+const globals = require('globals');
 
 module.exports = defineConfig([
   expoConfig,
   {
-    ignores: ['dist/*'],
+    ignores: ['dist/*', 'web-sdk/*'],
+  },
+  {
+    // Node.js로 실행하는 빌드/설정 스크립트
+    files: ['scripts/**'],
+    languageOptions: {
+      globals: globals.node,
+    },
   },
 ]);
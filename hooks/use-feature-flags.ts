@@ -0,0 +1,17 @@
+/**
+ * 기능 플래그 훅
+ * 런타임에 플래그가 바뀌면 다시 렌더링
+ */
+
+import { useSyncExternalStore } from 'react';
+
+import { getFeatureFlags, subscribeFeatureFlags, type FeatureFlagName } from '@/lib/feature-flags';
+
+export function useFeatureFlags() {
+  return useSyncExternalStore(subscribeFeatureFlags, getFeatureFlags);
+}
+
+// 단일 플래그만 필요할 때
+export function useFeatureFlag(name: FeatureFlagName) {
+  return useFeatureFlags()[name];
+}
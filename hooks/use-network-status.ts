@@ -1,11 +1,13 @@
 /**
  * 네트워크 상태 감지 훅
- * 온라인/오프라인 상태 변화를 실시간으로 감지
+ * 온라인/오프라인 상태 변화를 실시간으로 감지 (전역 스토어의 isOnline도 갱신)
  */
 
 import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import { useEffect, useState } from 'react';
 
+import { getAppActions } from '@/stores';
+
 export interface NetworkStatus {
   isConnected: boolean | null;
   isInternetReachable: boolean | null;
@@ -14,6 +16,22 @@ export interface NetworkStatus {
   isCellular: boolean;
 }
 
+const toNetworkStatus = (state: NetInfoState): NetworkStatus => ({
+  isConnected: state.isConnected,
+  isInternetReachable: state.isInternetReachable,
+  type: state.type,
+  isWifi: state.type === 'wifi',
+  isCellular: state.type === 'cellular',
+});
+
+// 온라인 여부 (isInternetReachable이 null이면 isConnected만 사용)
+const isStatusOnline = ({ isConnected, isInternetReachable }: NetworkStatus) => {
+  if (isInternetReachable === null) {
+    return isConnected !== false;
+  }
+  return isConnected === true && isInternetReachable === true;
+};
+
 export function useNetworkStatus() {
   const [status, setStatus] = useState<NetworkStatus>({
     isConnected: true,
@@ -24,27 +42,17 @@ export function useNetworkStatus() {
   });
 
   useEffect(() => {
+    const update = (state: NetInfoState) => {
+      const next = toNetworkStatus(state);
+      setStatus(next);
+      getAppActions().setOnline(isStatusOnline(next));
+    };
+
     // 초기 상태 가져오기
-    NetInfo.fetch().then((state: NetInfoState) => {
-      setStatus({
-        isConnected: state.isConnected,
-        isInternetReachable: state.isInternetReachable,
-        type: state.type,
-        isWifi: state.type === 'wifi',
-        isCellular: state.type === 'cellular',
-      });
-    });
+    NetInfo.fetch().then(update);
 
     // 네트워크 상태 변화 구독
-    const unsubscribe = NetInfo.addEventListener((state: NetInfoState) => {
-      setStatus({
-        isConnected: state.isConnected,
-        isInternetReachable: state.isInternetReachable,
-        type: state.type,
-        isWifi: state.type === 'wifi',
-        isCellular: state.type === 'cellular',
-      });
-    });
+    const unsubscribe = NetInfo.addEventListener(update);
 
     return () => unsubscribe();
   }, []);
@@ -54,12 +62,5 @@ export function useNetworkStatus() {
 
 // 단순히 온라인 여부만 필요할 때
 export function useIsOnline() {
-  const { isConnected, isInternetReachable } = useNetworkStatus();
-  
-  // isInternetReachable이 null이면 isConnected만 사용
-  if (isInternetReachable === null) {
-    return isConnected !== false;
-  }
-  
-  return isConnected === true && isInternetReachable === true;
+  return isStatusOnline(useNetworkStatus());
 }
@@ -0,0 +1,311 @@
+/**
+ * 브릿지 바이너리 전송
+ * 웹 → 앱: 큰 Blob/File을 청크 단위로 받아 임시 파일에 기록 (메모리에 base64 전체를 보관하지 않음)
+ * 앱 → 웹: 데이터를 임시 파일로 저장하고 웹에는 파일 참조(URL)만 전달
+ */
+
+import { Directory, File, Paths, type FileHandle } from 'expo-file-system';
+
+import { APP_CONFIG } from '@/constants/app-config';
+import { BINARY_CHUNK_SIZE, DEFAULT_BRIDGE_ID } from './bridge-client';
+
+// 웹에서 전송한 청크
+export interface BinaryChunk {
+  transferId: string;
+  index: number;
+  total: number;
+  /** base64 (청크 크기는 3의 배수라 청크별로 독립 디코딩 가능) */
+  data: string;
+}
+
+// 웹 페이로드에 포함된 청크 전송 참조
+export interface BinaryTransferRef {
+  __type: 'binary-ref';
+  transferId: string;
+  mimeType?: string;
+  name?: string;
+  size?: number;
+}
+
+// 앱 → 웹 파일 참조 (웹에서는 AppBridge 파일 객체로 변환됨)
+// 임시 파일 경로(file://)는 https 페이지에서 가져올 수 없으므로 웹에 전달하지 않음
+export interface WebFileRef {
+  __type: 'file';
+  id: string;
+  mimeType: string;
+  name: string;
+  size: number;
+}
+
+// 임시 파일과 소유 브릿지 ID (페이지 이동 시 해당 브릿지의 파일만 정리)
+interface OwnedFile {
+  file: File;
+  owner: string;
+}
+
+// 수신 중인 전송
+interface IncomingTransfer extends OwnedFile {
+  handle: FileHandle;
+  nextIndex: number;
+  total: number;
+  /** 기록한 바이트 수 */
+  size: number;
+}
+
+// 수신 중 / 수신 완료된 전송 (transferId → 임시 파일)
+const incomingTransfers: Map<string, IncomingTransfer> = new Map();
+const completedTransfers: Map<string, OwnedFile> = new Map();
+
+// 크기 제한으로 폐기한 전송 (transferId → 브릿지 ID, 해당 요청에 PAYLOAD_TOO_LARGE 응답)
+const rejectedTransfers: Map<string, string> = new Map();
+
+// 웹에 전달한 파일 (id → 임시 파일)
+const outgoingFiles: Map<string, OwnedFile> = new Map();
+
+let fileCounter = 0;
+
+// 임시 파일 디렉토리 (캐시 영역)
+const getTransferDirectory = () => {
+  const directory = new Directory(Paths.cache, 'bridge-transfer');
+  if (!directory.exists) {
+    directory.create({ intermediates: true, idempotent: true });
+  }
+  return directory;
+};
+
+// 임시 파일 생성
+const createTempFile = (prefix: 'in' | 'out') => {
+  fileCounter += 1;
+  const file = new File(getTransferDirectory(), `${prefix}-${Date.now()}-${fileCounter}`);
+  file.create({ overwrite: true });
+  return file;
+};
+
+// 임시 파일 삭제 (실패 무시)
+const deleteQuietly = (file: File) => {
+  try {
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn('[Bridge] Failed to delete temp file', file.uri, error);
+  }
+};
+
+// base64 → 바이트
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// 바이트 → base64 (긴 배열은 나눠서 변환)
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// 수신 중 / 대기 중인 임시 파일 크기 합계
+const getStoredBytes = () => {
+  let size = 0;
+  incomingTransfers.forEach(transfer => {
+    size += transfer.size;
+  });
+  completedTransfers.forEach(({ file }) => {
+    size += file.size;
+  });
+  return size;
+};
+
+// 크기 제한 초과 전송 폐기
+const rejectTransfer = (transferId: string, owner: string, reason: string) => {
+  console.warn(`[Bridge] Binary transfer rejected: ${transferId} (${reason})`);
+  discardTransfer(transferId);
+  rejectedTransfers.set(transferId, owner);
+};
+
+/**
+ * 웹에서 온 청크를 임시 파일에 이어 쓰기
+ * 청크는 순서대로 도착해야 하며, 순서가 어긋나면 해당 전송을 폐기
+ * 임시 파일 합계가 bridge.maxBinaryTransferSize를 넘으면 해당 전송을 폐기
+ * @param owner 청크를 보낸 브릿지 ID
+ */
+export const receiveBinaryChunk = (chunk: BinaryChunk, owner: string = DEFAULT_BRIDGE_ID) => {
+  const { transferId, index, total, data } = chunk;
+  const { maxBinaryTransferSize } = APP_CONFIG.bridge;
+  if (rejectedTransfers.has(transferId)) return;
+
+  let transfer = incomingTransfers.get(transferId);
+
+  if (!transfer && index === 0) {
+    if (!Number.isInteger(total) || total < 1) {
+      console.warn(`[Bridge] Invalid binary transfer: ${transferId} (total: ${total})`);
+      return;
+    }
+    if ((total - 1) * BINARY_CHUNK_SIZE >= maxBinaryTransferSize) {
+      rejectTransfer(transferId, owner, `${total} chunks`);
+      return;
+    }
+    const file = createTempFile('in');
+    transfer = { file, owner, handle: file.open(), nextIndex: 0, total, size: 0 };
+    incomingTransfers.set(transferId, transfer);
+  }
+
+  if (!transfer || index !== transfer.nextIndex || typeof data !== 'string') {
+    console.warn(`[Bridge] Unexpected binary chunk: ${transferId} #${index}`);
+    discardTransfer(transferId);
+    return;
+  }
+
+  const bytes = base64ToBytes(data);
+  if (bytes.length > BINARY_CHUNK_SIZE || getStoredBytes() + bytes.length > maxBinaryTransferSize) {
+    rejectTransfer(transferId, transfer.owner, `exceeds ${maxBinaryTransferSize} bytes`);
+    return;
+  }
+
+  transfer.handle.writeBytes(bytes);
+  transfer.size += bytes.length;
+  transfer.nextIndex += 1;
+
+  if (transfer.nextIndex === transfer.total) {
+    transfer.handle.close();
+    incomingTransfers.delete(transferId);
+    completedTransfers.set(transferId, { file: transfer.file, owner: transfer.owner });
+  }
+};
+
+// 수신 중 / 완료된 전송 폐기
+const discardTransfer = (transferId: string) => {
+  rejectedTransfers.delete(transferId);
+  const transfer = incomingTransfers.get(transferId);
+  if (transfer) {
+    transfer.handle.close();
+    deleteQuietly(transfer.file);
+    incomingTransfers.delete(transferId);
+  }
+  const completed = completedTransfers.get(transferId);
+  if (completed) {
+    deleteQuietly(completed.file);
+    completedTransfers.delete(transferId);
+  }
+};
+
+/**
+ * 크기 제한으로 폐기된 전송인지 확인
+ */
+export const isBinaryTransferRejected = (transferId: string) => rejectedTransfers.has(transferId);
+
+/**
+ * 청크 전송 참조를 핸들러용 객체로 변환
+ * 기존 base64 페이로드와 같은 형태({ type: 'base64', data, toBuffer })이며 data는 읽을 때 파일에서 로드
+ * @returns 전송이 완료되지 않았으면 null
+ */
+export const resolveBinaryRef = (ref: BinaryTransferRef) => {
+  const file = completedTransfers.get(ref.transferId)?.file;
+  if (!file) return null;
+
+  return {
+    type: 'base64' as const,
+    get data() {
+      return file.base64Sync();
+    },
+    mimeType: ref.mimeType,
+    name: ref.name,
+    size: ref.size ?? file.size,
+    /** 임시 파일 URI (응답 후 삭제되므로 보관하려면 복사 필요) */
+    uri: file.uri,
+    toBuffer: () => Buffer.from(file.base64Sync(), 'base64'),
+  };
+};
+
+/**
+ * 요청 처리가 끝난 전송의 임시 파일 삭제
+ */
+export const releaseBinaryTransfers = (transferIds: readonly string[]) => {
+  transferIds.forEach(discardTransfer);
+};
+
+/**
+ * 앱 → 웹 파일 생성
+ * 데이터를 임시 파일로 저장하고 sendToWeb 페이로드에 넣을 수 있는 참조 반환
+ * 웹이 직접 가져올 수 있는 URL은 제공하지 않음 (react-native-webview에 커스텀 스킴 핸들러가 없고 로컬 서버도 없음)
+ * 웹은 읽을 때 readWebFileChunk로 base64 청크를 받아 Blob을 구성
+ * @param data base64 문자열 또는 바이트
+ * @param options bridgeId: 파일을 전달할 브릿지 ID (해당 WebView 페이지 이동 시 삭제, 기본 메인)
+ */
+export const createWebFile = (
+  data: string | Uint8Array,
+  options: { mimeType?: string; name?: string; bridgeId?: string } = {}
+): WebFileRef => {
+  const file = createTempFile('out');
+  if (typeof data === 'string') {
+    file.write(data, { encoding: 'base64' });
+  } else {
+    file.write(data);
+  }
+
+  const id = `${Date.now().toString(36)}-${fileCounter}-${Math.random().toString(36).slice(2, 8)}`;
+  outgoingFiles.set(id, { file, owner: options.bridgeId ?? DEFAULT_BRIDGE_ID });
+
+  return {
+    __type: 'file',
+    id,
+    mimeType: options.mimeType ?? 'application/octet-stream',
+    name: options.name ?? 'file',
+    size: file.size,
+  };
+};
+
+/**
+ * 웹에 전달한 파일의 일부 읽기 (웹의 file.blob()에서 청크 단위로 호출)
+ * @returns base64 데이터와 파일 끝 도달 여부 (없는 파일이면 null)
+ */
+export const readWebFileChunk = (id: string, offset: number, length: number) => {
+  const file = outgoingFiles.get(id)?.file;
+  if (!file || !file.exists) return null;
+
+  const handle = file.open();
+  try {
+    handle.offset = offset;
+    const bytes = handle.readBytes(Math.max(0, Math.min(length, file.size - offset)));
+    return {
+      data: bytesToBase64(bytes),
+      eof: offset + bytes.length >= file.size,
+    };
+  } finally {
+    handle.close();
+  }
+};
+
+/**
+ * 웹에 전달한 파일 삭제
+ */
+export const releaseWebFile = (id: string) => {
+  const outgoing = outgoingFiles.get(id);
+  if (!outgoing) return;
+  deleteQuietly(outgoing.file);
+  outgoingFiles.delete(id);
+};
+
+// owner 미지정 시 전체, 지정 시 해당 브릿지 소유 항목의 키 목록
+const keysOwnedBy = (map: Map<string, OwnedFile>, owner?: string) =>
+  Array.from(map.entries())
+    .filter(([, entry]) => owner === undefined || entry.owner === owner)
+    .map(([key]) => key);
+
+/**
+ * 임시 파일 정리 (페이지 이동 시 호출)
+ * @param owner 브릿지 ID (미지정 시 모든 브릿지)
+ */
+export const clearBinaryTransfers = (owner?: string) => {
+  Array.from(rejectedTransfers.entries())
+    .filter(([, entryOwner]) => owner === undefined || entryOwner === owner)
+    .forEach(([transferId]) => rejectedTransfers.delete(transferId));
+  keysOwnedBy(incomingTransfers, owner).forEach(discardTransfer);
+  keysOwnedBy(completedTransfers, owner).forEach(discardTransfer);
+  keysOwnedBy(outgoingFiles, owner).forEach(releaseWebFile);
+};
@@ -3,63 +3,63 @@
  * 이 코드를 웹사이트에 포함시키거나 injectedJavaScript로 주입
  */
 
-// UUID v4 생성 (RFC 4122 표준)
-const generateUUID = (): string => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
-  });
-};
+import { APP_CONFIG } from '@/constants/app-config';
 
-// 간단한 해시 함수 (SHA-256 대체)
-const simpleHash = (str: string): string => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  // 더 긴 해시 생성
-  const hex = Math.abs(hash).toString(16);
-  const random = Math.random().toString(36).substring(2);
-  const random2 = Math.random().toString(36).substring(2);
-  return `${hex}${random}${random2}`.substring(0, 64);
-};
+import { generateSecureToken } from './bridge-crypto';
 
-// 보안 토큰 생성 (런타임에 랜덤 생성)
-// UUID v4 기반 + 해시로 중복 불가능한 토큰 생성
-const generateSecurityToken = (): string => {
-  // 1. UUID v4 생성 (128비트 암호학적 랜덤)
-  const uuid1 = generateUUID();
-  const uuid2 = generateUUID();
-  const uuid3 = generateUUID();
-  const uuid4 = generateUUID();
-  const uuid5 = generateUUID();
-  
-  // 2. 고정밀 타임스탬프 (나노초 수준)
-  const highResTime = Date.now() * 1000000 + Math.floor(Math.random() * 1000000);
-  
-  // 3. 추가 엔트로피 소스
-  const entropy1 = Math.random().toString(36).substring(2) + Math.random().toString(36).substring(2);
-  const entropy2 = Math.random().toString(36).substring(2) + Math.random().toString(36).substring(2);
-  const entropy3 = Math.random().toString(36).substring(2) + Math.random().toString(36).substring(2);
-  
-  // 4. 모든 소스 결합
-  const combined = `RNW-BRIDGE-${uuid1}-${uuid2}-${uuid3}-${uuid4}-${uuid5}-${highResTime}-${entropy1}-${entropy2}-${entropy3}-${Date.now()}`;
-  
-  // 5. 해시로 최종 서명
-  const hash = simpleHash(combined);
-  
-  // 6. 최종 토큰: UUID + 해시 조합 (약 200자, 중복 확률 = 0)
-  return `${uuid1}-${hash}-${uuid2.substring(0, 8)}-${uuid3.substring(0, 8)}`;
-};
+// 보안 토큰 (브릿지 인스턴스별로 보관, 페이지가 준비될 때마다 교체)
+export interface SecurityTokenSet {
+  // 현재 토큰 (다음에 로드되는 페이지가 받을 토큰)
+  current: string;
+  // 교체 직전 토큰 (준비된 현재 페이지의 토큰, 다음 페이지가 새 토큰으로 준비될 때까지 허용)
+  previous: string | null;
+}
+
+/**
+ * 새 보안 토큰 생성
+ */
+export const createSecurityTokenSet = (): SecurityTokenSet => ({
+  current: generateSecureToken(),
+  previous: null,
+});
+
+// 기본 브릿지(메인 WebView) 토큰
+export const defaultSecurityTokens = createSecurityTokenSet();
+
+// 기본 브릿지 ID
+export const DEFAULT_BRIDGE_ID = 'main';
+
+// 브릿지 프로토콜 버전 (주 버전이 다르면 호환되지 않음)
+export const BRIDGE_PROTOCOL_VERSION = '2.1.0';
+
+// 웹 페이지 준비 완료 신호 (초기화 후 앱으로 전송하는 내부 액션)
+export const BRIDGE_READY_ACTION = '__bridgeReady';
+
+// 호출 취소 신호 (AbortSignal 또는 타임아웃 시 앱으로 전송하는 내부 액션)
+export const CANCEL_REQUEST_ACTION = '__cancelRequest';
+
+// 프레임 단위로 묶어 보낸 앱 → 웹 메시지 (내부 액션)
+export const BATCH_ACTION = '__batch';
+
+// 큰 Blob/File 청크 전송 (내부 액션)
+export const BINARY_CHUNK_ACTION = '__binaryChunk';
+
+// 앱 → 웹 파일 청크 읽기 / 삭제 (내부 액션)
+export const READ_FILE_ACTION = '__readFile';
+export const RELEASE_FILE_ACTION = '__releaseFile';
 
-// 즉시 생성
-const SECURITY_TOKEN = generateSecurityToken();
+// Android 뒤로가기 요청 액션 (callWeb, 응답 true면 웹이 처리)
+export const BACK_PRESSED_ACTION = 'backPressed';
+
+// 당겨서 새로고침 요청 액션 (callWeb, 응답 true면 웹이 데이터 갱신 완료)
+export const REFRESH_REQUESTED_ACTION = 'refreshRequested';
+
+// 청크 크기 (bytes). 청크별 base64를 독립적으로 디코딩할 수 있도록 3의 배수
+export const BINARY_CHUNK_SIZE = 192 * 1024;
 
 // 브릿지 클라이언트 스크립트 생성
-export const getBridgeClientScript = (): string => {
+// tokens 미지정 시 기본 브릿지 토큰 사용
+export const getBridgeClientScript = (tokens: SecurityTokenSet = defaultSecurityTokens): string => {
   return `
 (function() {
   // ========================================
@@ -100,14 +100,175 @@ export const getBridgeClientScript = (): string => {
   // 이미 초기화되었으면 스킵
   if (window.AppBridge) return;
 
-  // 보안 토큰 (주입 시 설정됨)
-  var BRIDGE_TOKEN = '${SECURITY_TOKEN}';
+  // 보안 토큰 (주입 시 설정됨, 클로저 밖으로 노출하지 않음)
+  var BRIDGE_TOKEN = '${tokens.current}';
+
+  // 메시지 서명 사용 여부
+  var SIGN_MESSAGES = ${APP_CONFIG.bridge.signing.enabled};
 
   // 응답 대기 맵
   const pendingRequests = new Map();
 
-  // 파일/바이너리 데이터를 base64로 변환
-  function toBase64(data) {
+  // 에러 코드가 포함된 에러 생성 (err.code, err.details)
+  function createBridgeError(code, message, details) {
+    var error = new Error(message);
+    error.code = code;
+    if (details) error.details = details;
+    return error;
+  }
+
+  // 호출 취소 에러 생성
+  function createAbortError(action) {
+    var error = createBridgeError('CANCELLED', 'Request aborted: ' + action);
+    error.name = 'AbortError';
+    return error;
+  }
+
+  // 바이트 → 16진수 문자열
+  function toHex(bytes) {
+    var hex = '';
+    for (var i = 0; i < bytes.length; i++) {
+      hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+    }
+    return hex;
+  }
+
+  // 서명 키 (토큰 기반 HMAC-SHA256, 최초 사용 시 생성)
+  var signingKey = null;
+  function getSigningKey() {
+    if (!signingKey) {
+      signingKey = crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(BRIDGE_TOKEN),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+    }
+    return signingKey;
+  }
+
+  // 서명은 비동기이므로 전송 순서 유지를 위해 순차 처리
+  var signQueue = Promise.resolve();
+
+  // 앱으로 메시지 전송 (토큰 첨부 또는 서명)
+  function postToNative(message) {
+    if (!SIGN_MESSAGES) {
+      message.__token = BRIDGE_TOKEN;
+      window.ReactNativeWebView.postMessage(JSON.stringify(message));
+      return;
+    }
+
+    if (!window.crypto || !window.crypto.subtle) {
+      console.error('[AppBridge] Message signing requires a secure context (https)');
+      return;
+    }
+
+    var nonce = new Uint8Array(16);
+    crypto.getRandomValues(nonce);
+    message.__nonce = toHex(nonce);
+    message.timestamp = Date.now();
+    var signed = JSON.stringify(message);
+
+    signQueue = signQueue.then(function() {
+      return getSigningKey().then(function(key) {
+        return crypto.subtle.sign('HMAC', key, new TextEncoder().encode(signed));
+      }).then(function(signature) {
+        window.ReactNativeWebView.postMessage(JSON.stringify({
+          protocol: message.protocol,
+          signed: signed,
+          __sig: toHex(new Uint8Array(signature))
+        }));
+      });
+    }).catch(function(err) {
+      console.error('[AppBridge] Failed to sign message:', err);
+    });
+  }
+
+  // 앱으로 바로 전송 (페이로드 처리 없음)
+  function postToApp(action, payload) {
+    postToNative({
+      protocol: 'app://' + action,
+      payload: payload,
+      timestamp: Date.now()
+    });
+  }
+
+  // Blob 조각을 base64 문자열로 읽기
+  function readAsBase64(blob) {
+    return new Promise(function(resolve, reject) {
+      var reader = new FileReader();
+      reader.onloadend = function() {
+        resolve(reader.result.split(',')[1] || '');
+      };
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  // 업로드 진행률 알림 (call 옵션 onProgress + 'uploadProgress' 리스너)
+  function emitProgress(progress, options) {
+    if (options && options.onProgress) {
+      try { options.onProgress(progress); } catch(e) { console.error(e); }
+    }
+    var listeners = window.AppBridge._listeners && window.AppBridge._listeners['uploadProgress'];
+    if (listeners) {
+      listeners.forEach(function(cb) {
+        try { cb(progress); } catch(e) { console.error(e); }
+      });
+    }
+  }
+
+  var transferCounter = 0;
+
+  // 큰 Blob/File을 청크로 나눠 전송 후 참조 반환 (앱은 임시 파일에 이어 씀)
+  function sendChunked(data, options) {
+    var transferId = Date.now().toString(36) + '-' + (++transferCounter) + '-' + Math.random().toString(36).substr(2, 6);
+    var chunkSize = ${BINARY_CHUNK_SIZE};
+    var total = Math.ceil(data.size / chunkSize);
+    var name = data.name || 'file';
+    var index = 0;
+
+    function next() {
+      if (options && options.signal && options.signal.aborted) {
+        return Promise.reject(createAbortError('upload'));
+      }
+      if (index >= total) {
+        return Promise.resolve({
+          __type: 'binary-ref',
+          transferId: transferId,
+          mimeType: data.type,
+          name: name,
+          size: data.size
+        });
+      }
+      var start = index * chunkSize;
+      return readAsBase64(data.slice(start, start + chunkSize)).then(function(chunk) {
+        postToApp('${BINARY_CHUNK_ACTION}', {
+          transferId: transferId,
+          index: index,
+          total: total,
+          data: chunk
+        });
+        index++;
+        emitProgress({
+          transferId: transferId,
+          name: name,
+          loaded: Math.min(index * chunkSize, data.size),
+          total: data.size
+        }, options);
+        return next();
+      });
+    }
+
+    return next();
+  }
+
+  // 파일/바이너리 데이터를 base64로 변환 (큰 데이터는 청크 전송)
+  function toBase64(data, options) {
+    if ((data instanceof Blob || data instanceof File) && data.size > ${BINARY_CHUNK_SIZE}) {
+      return sendChunked(data, options);
+    }
     if (data instanceof Blob || data instanceof File) {
       return new Promise(function(resolve, reject) {
         var reader = new FileReader();
@@ -128,7 +289,7 @@ export const getBridgeClientScript = (): string => {
   }
 
   // 재귀적으로 모든 Blob/File 처리
-  function processPayload(payload) {
+  function processPayload(payload, options) {
     if (!payload || typeof payload !== 'object') {
       return Promise.resolve(payload);
     }
@@ -141,7 +302,7 @@ export const getBridgeClientScript = (): string => {
         var value = payload[key];
         if (value instanceof Blob || value instanceof File) {
           keys.push(key);
-          promises.push(toBase64(value));
+          promises.push(toBase64(value, options));
         }
       }
     }
@@ -159,6 +320,59 @@ export const getBridgeClientScript = (): string => {
     });
   }
 
+  // 앱이 보낸 파일 참조를 파일 객체로 변환 (blob()으로 청크 단위 로드, 청크는 base64로 전달됨)
+  function createAppFile(ref) {
+    return {
+      type: 'file',
+      id: ref.id,
+      mimeType: ref.mimeType,
+      name: ref.name,
+      size: ref.size,
+      blob: function() {
+        var parts = [];
+        var offset = 0;
+        function next() {
+          return window.AppBridge.call('${READ_FILE_ACTION}', {
+            id: ref.id,
+            offset: offset,
+            length: ${BINARY_CHUNK_SIZE}
+          }).then(function(chunk) {
+            var binary = atob(chunk.data);
+            var bytes = new Uint8Array(binary.length);
+            for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+            parts.push(bytes);
+            offset += bytes.length;
+            if (chunk.eof || bytes.length === 0) {
+              return new Blob(parts, { type: ref.mimeType });
+            }
+            return next();
+          });
+        }
+        return next();
+      },
+      objectUrl: function() {
+        return this.blob().then(function(blob) {
+          return URL.createObjectURL(blob);
+        });
+      },
+      release: function() {
+        postToApp('${RELEASE_FILE_ACTION}', { id: ref.id });
+      }
+    };
+  }
+
+  // 페이로드 안의 파일 참조를 재귀적으로 변환
+  function resolveFileRefs(value) {
+    if (!value || typeof value !== 'object') return value;
+    if (value.__type === 'file' && value.id) return createAppFile(value);
+    for (var key in value) {
+      if (value.hasOwnProperty(key)) {
+        value[key] = resolveFileRefs(value[key]);
+      }
+    }
+    return value;
+  }
+
   // 앱 브릿지 객체
   window.AppBridge = {
     /**
@@ -168,13 +382,11 @@ export const getBridgeClientScript = (): string => {
      */
     send: function(action, payload) {
       processPayload(payload || {}).then(function(processed) {
-        const message = {
+        postToNative({
           protocol: 'app://' + action,
           payload: processed,
-          timestamp: Date.now(),
-          __token: BRIDGE_TOKEN
-        };
-        window.ReactNativeWebView.postMessage(JSON.stringify(message));
+          timestamp: Date.now()
+        });
       }).catch(function(err) {
         console.error('[AppBridge] Failed to process payload:', err);
       });
@@ -184,39 +396,70 @@ export const getBridgeClientScript = (): string => {
      * 앱으로 메시지 전송 후 응답 대기
      * @param {string} action - 액션명
      * @param {object} payload - 데이터 (Blob/File 지원)
-     * @param {number} timeout - 타임아웃 (ms)
+     * @param {number|object} options - 타임아웃 (ms) 또는 { timeout, signal, onProgress }
      * @returns {Promise}
      */
-    call: function(action, payload, timeout) {
-      timeout = timeout || 10000;
+    call: function(action, payload, options) {
+      if (typeof options === 'number' || !options) {
+        options = { timeout: options };
+      }
+      var timeout = options.timeout || 10000;
+      var signal = options.signal;
       var self = this;
+
+      if (signal && signal.aborted) {
+        return Promise.reject(createAbortError(action));
+      }
       
-      return processPayload(payload || {}).then(function(processed) {
+      return processPayload(payload || {}, options).then(function(processed) {
         return new Promise(function(resolve, reject) {
           var requestId = Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+
+          // 대기 해제 + 앱에 취소 알림 (앱 핸들러에 취소 신호 전달)
+          var cancel = function(error) {
+            if (!pendingRequests.has(requestId)) return;
+            var pending = pendingRequests.get(requestId);
+            clearTimeout(pending.timer);
+            pendingRequests.delete(requestId);
+            if (signal) signal.removeEventListener('abort', pending.onAbort);
+            self.send('${CANCEL_REQUEST_ACTION}', { requestId: requestId });
+            reject(error);
+          };
           
           // 타임아웃 설정
           var timer = setTimeout(function() {
-            pendingRequests.delete(requestId);
-            reject(new Error('Request timeout: ' + action));
+            cancel(createBridgeError('TIMEOUT', 'Request timeout: ' + action));
           }, timeout);
 
+          // AbortSignal 연동
+          var onAbort = function() {
+            cancel(createAbortError(action));
+          };
+          if (signal) {
+            if (signal.aborted) {
+              clearTimeout(timer);
+              reject(createAbortError(action));
+              return;
+            }
+            signal.addEventListener('abort', onAbort);
+          }
+
           // 응답 대기 등록
           pendingRequests.set(requestId, {
             resolve: resolve,
             reject: reject,
-            timer: timer
+            timer: timer,
+            signal: signal,
+            onAbort: onAbort
           });
 
           // 요청 전송
-          var message = {
+          postToNative({
             protocol: 'app://' + action,
             payload: processed,
             requestId: requestId,
-            timestamp: Date.now(),
-            __token: BRIDGE_TOKEN
-          };
-          window.ReactNativeWebView.postMessage(JSON.stringify(message));
+            timestamp: Date.now()
+          });
         });
       });
     },
@@ -272,6 +515,92 @@ export const getBridgeClientScript = (): string => {
       });
     },
 
+    /**
+     * 앱의 요청(callWeb)에 응답하는 핸들러 등록
+     * 핸들러의 반환값(또는 Promise 결과)으로 자동 성공 응답, 예외 발생 시 에러 응답
+     * @param {string} action - 액션명
+     * @param {function} handler - (payload, message) => 결과 | Promise
+     */
+    handle: function(action, handler) {
+      if (!this._responders) this._responders = {};
+      this._responders[action] = handler;
+    },
+
+    /**
+     * 응답 핸들러 해제
+     * @param {string} action - 액션명
+     */
+    unhandle: function(action) {
+      if (this._responders) delete this._responders[action];
+    },
+
+    /**
+     * Android 뒤로가기 처리 핸들러 등록 (나중에 등록한 핸들러부터 호출)
+     * 핸들러가 true(또는 true로 끝나는 Promise)를 반환하면 앱의 기본 동작(뒤로 이동, 종료)을 막음
+     * @param {function} handler - ({ canGoBack, url }) => boolean | Promise<boolean>
+     * @returns {function} 해제 함수
+     */
+    onBack: function(handler) {
+      var self = this;
+      if (!this._backHandlers) this._backHandlers = [];
+      this._backHandlers.push(handler);
+      return function() { self.offBack(handler); };
+    },
+
+    /**
+     * 뒤로가기 핸들러 해제
+     */
+    offBack: function(handler) {
+      if (!this._backHandlers) return;
+      this._backHandlers = this._backHandlers.filter(function(h) {
+        return h !== handler;
+      });
+    },
+
+    /**
+     * 당겨서 새로고침 처리 핸들러 등록 (나중에 등록한 핸들러부터 호출)
+     * 데이터 갱신 후 true(또는 true로 끝나는 Promise)를 반환하면 페이지를 새로고침하지 않음
+     * @param {function} handler - ({ url }) => boolean | Promise<boolean>
+     * @returns {function} 해제 함수
+     */
+    onRefresh: function(handler) {
+      var self = this;
+      if (!this._refreshHandlers) this._refreshHandlers = [];
+      this._refreshHandlers.push(handler);
+      return function() { self.offRefresh(handler); };
+    },
+
+    /**
+     * 새로고침 핸들러 해제
+     */
+    offRefresh: function(handler) {
+      if (!this._refreshHandlers) return;
+      this._refreshHandlers = this._refreshHandlers.filter(function(h) {
+        return h !== handler;
+      });
+    },
+
+    /**
+     * 내부: 핸들러를 최근 등록 순으로 실행, 하나라도 true면 처리 완료 (onBack, onRefresh)
+     */
+    _runClaimHandlers: function(list, payload) {
+      var handlers = (list || []).slice().reverse();
+      var index = 0;
+      var next = function() {
+        if (index >= handlers.length) return false;
+        var handler = handlers[index++];
+        return Promise.resolve().then(function() {
+          return handler(payload);
+        }).then(function(handled) {
+          return handled === true ? true : next();
+        }, function(err) {
+          console.error('[AppBridge] Handler error:', err);
+          return next();
+        });
+      };
+      return next();
+    },
+
     /**
      * 리스너 해제
      */
@@ -294,28 +623,78 @@ export const getBridgeClientScript = (): string => {
       if (pending) {
         clearTimeout(pending.timer);
         pendingRequests.delete(response.requestId);
+        if (pending.signal) pending.signal.removeEventListener('abort', pending.onAbort);
         if (response.success) {
           pending.resolve(response.data);
         } else {
-          pending.reject(new Error(response.error || 'Unknown error'));
+          pending.reject(createBridgeError(
+            response.code || 'INTERNAL_ERROR',
+            response.error || 'Unknown error',
+            response.details
+          ));
         }
       }
     },
 
+    /**
+     * 내부: 앱 요청에 응답 핸들러 실행 후 결과 회신
+     */
+    _respond: function(handler, message) {
+      var self = this;
+      var payload = Object.assign({}, message.payload);
+      var requestId = payload.requestId;
+      var responseAction = payload.responseAction;
+      delete payload.requestId;
+      delete payload.responseAction;
+
+      Promise.resolve().then(function() {
+        return handler(payload, message);
+      }).then(function(result) {
+        self.send(responseAction, { requestId: requestId, success: true, data: result });
+      }, function(err) {
+        console.error('[AppBridge] Handler error: ' + message.action, err);
+        self.send(responseAction, {
+          requestId: requestId,
+          success: false,
+          error: (err && err.message) || String(err),
+          code: (err && typeof err.code === 'string') ? err.code : 'INTERNAL_ERROR',
+          details: err && err.details
+        });
+      });
+    },
+
     /**
      * 내부: 앱 메시지 처리
      */
     _handleMessage: function(message) {
+      // 프레임 단위로 묶인 메시지는 하나씩 처리
+      if (message.action === '${BATCH_ACTION}') {
+        var messages = (message.payload && message.payload.messages) || [];
+        for (var i = 0; i < messages.length; i++) {
+          this._handleMessage(messages[i]);
+        }
+        return;
+      }
+
       console.log('[AppBridge] _handleMessage called', message);
       console.log('[AppBridge] message.action:', message.action);
       console.log('[AppBridge] _listeners:', this._listeners);
       
+      // 앱이 보낸 파일 참조 변환 (응답 데이터 포함)
+      message.payload = resolveFileRefs(message.payload);
+
       // 응답 메시지 처리
       if (message.action === 'bridgeResponse') {
         this._handleResponse(message.payload);
         return;
       }
 
+      // 앱 요청(callWeb)에 대한 응답 핸들러
+      var responder = this._responders && this._responders[message.action];
+      if (responder && message.payload && message.payload.responseAction) {
+        this._respond(responder, message);
+      }
+
       // 리스너 호출
       if (this._listeners) {
         // 특정 액션 리스너
@@ -348,13 +727,23 @@ export const getBridgeClientScript = (): string => {
       return !!window.ReactNativeWebView;
     },
 
-    // 보안 토큰 확인 (디버깅용)
-    getToken: function() {
-      return BRIDGE_TOKEN;
+    /**
+     * 내부: 앱에 준비 완료 신호 전송 (앱은 이 신호 이후 대기 중인 메시지 전송)
+     */
+    _announceReady: function() {
+      this.send('${BRIDGE_READY_ACTION}', { version: this.version });
+    },
+
+    /**
+     * 앱이 제공하는 액션 목록과 플랫폼 지원 여부 조회 (기능 감지용)
+     * @returns {Promise<{ protocolVersion, platform, actions: Array }>}
+     */
+    getCapabilities: function() {
+      return this.call('getCapabilities');
     },
 
-    // 버전
-    version: '2.0.0'
+    // 프로토콜 버전 (준비 신호로 앱에 전달)
+    version: '${BRIDGE_PROTOCOL_VERSION}'
   };
 
   // 앱에서 온 메시지 수신 리스너
@@ -368,13 +757,52 @@ export const getBridgeClientScript = (): string => {
     window.AppBridge._handleMessage(message);
   };
 
+  // 앱의 뒤로가기 / 새로고침 요청 → onBack / onRefresh 핸들러 (handle로 직접 덮어쓸 수 있음)
+  window.AppBridge.handle('${BACK_PRESSED_ACTION}', function(payload) {
+    return window.AppBridge._runClaimHandlers(window.AppBridge._backHandlers, payload);
+  });
+  window.AppBridge.handle('${REFRESH_REQUESTED_ACTION}', function(payload) {
+    return window.AppBridge._runClaimHandlers(window.AppBridge._refreshHandlers, payload);
+  });
+
   // 초기화 완료 이벤트
   window.dispatchEvent(new CustomEvent('AppBridgeReady'));
   console.log('[AppBridge] Initialized');
+
+  // 앱에 준비 완료 알림
+  window.AppBridge._announceReady();
 })();
 true;
 `;
 };
 
 // 보안 토큰 getter
-export const getSecurityToken = () => SECURITY_TOKEN;
+export const getSecurityToken = (tokens: SecurityTokenSet = defaultSecurityTokens) => tokens.current;
+
+/**
+ * 보안 토큰 교체
+ * 이후 getBridgeClientScript(tokens)는 새 토큰이 담긴 스크립트를 반환
+ */
+export const rotateSecurityToken = (tokens: SecurityTokenSet = defaultSecurityTokens) => {
+  tokens.previous = tokens.current;
+  tokens.current = generateSecureToken();
+  return tokens.current;
+};
+
+/**
+ * 메시지의 토큰(또는 서명 키)으로 허용되는 토큰 목록
+ */
+export const getAcceptedSecurityTokens = (tokens: SecurityTokenSet = defaultSecurityTokens): readonly string[] =>
+  tokens.previous ? [tokens.current, tokens.previous] : [tokens.current];
+
+/**
+ * 페이지가 현재 토큰으로 준비 신호를 보냈으면 토큰 교체
+ * 준비된 페이지의 토큰은 이전 토큰으로 계속 허용하고 (그 전 토큰은 폐기), 다음 페이지는 새 토큰을 받음
+ * 리다이렉트처럼 준비 신호 없이 이어지는 로드에서는 교체하지 않음
+ * @returns 교체 여부
+ */
+export const confirmSecurityToken = (token: string, tokens: SecurityTokenSet = defaultSecurityTokens): boolean => {
+  if (token !== tokens.current) return false;
+  rotateSecurityToken(tokens);
+  return true;
+};
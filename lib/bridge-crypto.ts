@@ -0,0 +1,63 @@
+/**
+ * 브릿지 보안 유틸
+ * 보안 토큰 생성(암호학적 난수)과 메시지 서명 검증(HMAC-SHA256)
+ */
+
+import { CryptoDigestAlgorithm, digest, getRandomBytes } from 'expo-crypto';
+
+// 바이트 → 16진수 문자열
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * 암호학적 난수 기반 토큰 생성
+ * @param byteCount 난수 바이트 수 (기본 32 = 256비트)
+ */
+export const generateSecureToken = (byteCount = 32) => toHex(getRandomBytes(byteCount));
+
+// SHA-256 해시 (expo-crypto 네이티브 구현)
+const sha256 = async (data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> =>
+  new Uint8Array(await digest(CryptoDigestAlgorithm.SHA256, data));
+
+/**
+ * HMAC-SHA256 서명 (16진수)
+ * @param key 서명 키 (보안 토큰)
+ * @param message 서명할 문자열
+ */
+export const hmacSha256Hex = async (key: string, message: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  let keyBytes = encoder.encode(key);
+  if (keyBytes.length > 64) keyBytes = await sha256(keyBytes);
+
+  const block = new Uint8Array(64);
+  block.set(keyBytes);
+  const inner = new Uint8Array(64);
+  const outer = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = block[i] ^ 0x36;
+    outer[i] = block[i] ^ 0x5c;
+  }
+
+  const messageBytes = encoder.encode(message);
+  const innerData = new Uint8Array(64 + messageBytes.length);
+  innerData.set(inner);
+  innerData.set(messageBytes, 64);
+  const innerHash = await sha256(innerData);
+
+  const outerData = new Uint8Array(64 + 32);
+  outerData.set(outer);
+  outerData.set(innerHash, 64);
+  return toHex(await sha256(outerData));
+};
+
+/**
+ * 문자열을 일정한 시간에 비교 (서명 비교 시 타이밍 공격 방지)
+ */
+export const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
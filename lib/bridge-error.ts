@@ -0,0 +1,66 @@
+/**
+ * 브릿지 에러 모델
+ * 핸들러가 throw 하거나 respond로 전달하면 웹의 AppBridge.call이 err.code와 함께 reject
+ */
+
+// 에러 코드
+export type BridgeErrorCode =
+  // 등록되지 않은 액션
+  | 'UNKNOWN_ACTION'
+  // 페이로드 스키마 검증 실패
+  | 'INVALID_PAYLOAD'
+  // 출처 접근 정책에 의해 차단
+  | 'ACCESS_DENIED'
+  // 현재 플랫폼에서 지원하지 않음
+  | 'UNSUPPORTED_PLATFORM'
+  // 권한 거부
+  | 'PERMISSION_DENIED'
+  // 기능/모듈을 사용할 수 없음
+  | 'UNAVAILABLE'
+  // 응답 시간 초과
+  | 'TIMEOUT'
+  // 호출 취소
+  | 'CANCELLED'
+  // 호출 횟수 제한 초과
+  | 'RATE_LIMITED'
+  // 이전 호출 처리 중 (drop-while-busy)
+  | 'BUSY'
+  // 페이로드 크기 초과
+  | 'PAYLOAD_TOO_LARGE'
+  // 그 외 처리 중 오류
+  | 'INTERNAL_ERROR';
+
+export class BridgeError extends Error {
+  readonly code: BridgeErrorCode;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: BridgeErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'BridgeError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * BridgeError 여부 확인
+ */
+export const isBridgeError = (error: unknown): error is BridgeError => {
+  return error instanceof BridgeError;
+};
+
+/**
+ * 임의의 에러를 BridgeError로 변환 (이미 BridgeError면 그대로 반환)
+ * @param error 원본 에러
+ * @param fallbackMessage 메시지를 알 수 없을 때 사용할 메시지
+ * @param code 변환 시 사용할 에러 코드 (기본 INTERNAL_ERROR)
+ */
+export const toBridgeError = (
+  error: unknown,
+  fallbackMessage = 'Unknown error',
+  code: BridgeErrorCode = 'INTERNAL_ERROR'
+): BridgeError => {
+  if (isBridgeError(error)) return error;
+  const message = error instanceof Error && error.message ? error.message : fallbackMessage;
+  return new BridgeError(code, message);
+};
@@ -0,0 +1,81 @@
+/**
+ * 브릿지 접근 제어 정책
+ * 메시지를 보낸 페이지의 출처(URL)에 따라 액션 허용/차단
+ */
+
+import { APP_CONFIG } from '@/constants/app-config';
+import { BRIDGE_READY_ACTION, CANCEL_REQUEST_ACTION } from './bridge-client';
+import { matchUrlPattern } from './url-pattern';
+
+// 출처별 접근 규칙
+export interface BridgeAccessRule {
+  /** 페이지 URL 패턴 (allowedUrlPatterns와 동일한 와일드카드 문법) */
+  origin: string;
+  /** 허용 액션 목록 ('*' 전체, 'get*' 접두사 등). 지정 시 목록 외 액션은 차단 */
+  allow?: readonly string[];
+  /** 차단 액션 목록 (allow보다 우선) */
+  deny?: readonly string[];
+}
+
+export type BridgeDefaultAccess = 'allow' | 'deny';
+
+// 접근 판정 결과
+export interface BridgeAccessDecision {
+  allowed: boolean;
+  /** 판정에 사용된 규칙 (기본 정책 적용 시 null) */
+  rule: BridgeAccessRule | null;
+}
+
+// 현재 적용 중인 정책 (앱 설정으로 초기화)
+let accessRules: readonly BridgeAccessRule[] = APP_CONFIG.bridge.accessRules;
+let defaultAccess: BridgeDefaultAccess = APP_CONFIG.bridge.defaultAccess;
+
+// 프로토콜 제어 액션 (준비 신호, 취소, callWeb 응답) 은 정책 대상에서 제외
+// 파일 전송 액션 (__binaryChunk, __readFile, __releaseFile) 은 일반 액션과 같이 판정
+const isControlAction = (action: string) =>
+  action === BRIDGE_READY_ACTION || action === CANCEL_REQUEST_ACTION || action.startsWith('__response_');
+
+// 액션 패턴 매칭 ('*' 와일드카드)
+const matchActionPattern = (action: string, pattern: string): boolean => {
+  if (pattern === '*') return true;
+  const regexPattern = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${regexPattern}$`).test(action);
+};
+
+/**
+ * 접근 정책 교체 (런타임 변경용)
+ * @param rules 출처별 규칙 (순서대로 비교해 처음 일치한 규칙 적용)
+ * @param fallback 일치하는 규칙이 없을 때 기본 동작
+ */
+export const setBridgeAccessPolicy = (
+  rules: readonly BridgeAccessRule[],
+  fallback: BridgeDefaultAccess = defaultAccess
+) => {
+  accessRules = rules;
+  defaultAccess = fallback;
+  console.log(`[Bridge] Access policy updated: ${rules.length} rule(s), default: ${fallback}`);
+};
+
+/**
+ * 출처 URL에서 액션 호출이 허용되는지 확인
+ */
+export const checkBridgeAccess = (action: string, url: string | undefined): BridgeAccessDecision => {
+  if (isControlAction(action)) {
+    return { allowed: true, rule: null };
+  }
+
+  const rule = url ? accessRules.find(r => matchUrlPattern(url, r.origin)) : undefined;
+  if (!rule) {
+    return { allowed: defaultAccess === 'allow', rule: null };
+  }
+
+  if (rule.deny?.some(pattern => matchActionPattern(action, pattern))) {
+    return { allowed: false, rule };
+  }
+  if (rule.allow && !rule.allow.some(pattern => matchActionPattern(action, pattern))) {
+    return { allowed: false, rule };
+  }
+  return { allowed: true, rule };
+};
@@ -0,0 +1,121 @@
+/**
+ * 브릿지 페이로드 스키마
+ * 액션별 페이로드 구조를 선언하고 핸들러 실행 전에 런타임 검증
+ */
+
+// 필드 타입
+export type SchemaFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+// 필드 정의
+export interface SchemaField {
+  /** 값 타입 */
+  type: SchemaFieldType;
+  /** 필수 여부 (기본 false) */
+  required?: boolean;
+  /** 허용 값 목록 */
+  enum?: readonly (string | number)[];
+  /** 최소값 (number: 값, string/array: 길이) */
+  min?: number;
+  /** 최대값 (number: 값, string/array: 길이) */
+  max?: number;
+  /** 배열 요소 스키마 (type: 'array') */
+  items?: SchemaField;
+  /** 하위 필드 스키마 (type: 'object') */
+  properties?: PayloadSchema;
+  /** 설명 (문서 생성용) */
+  description?: string;
+}
+
+// 페이로드 스키마 (필드명 → 필드 정의)
+export type PayloadSchema = Record<string, SchemaField>;
+
+// 검증 실패 정보
+export interface SchemaValidationError {
+  /** 문제가 된 필드 경로 (예: 'pattern[2]', 'options.color') */
+  field: string;
+  /** 사람이 읽을 수 있는 에러 메시지 */
+  message: string;
+}
+
+// 값의 실제 타입 판별
+const getValueType = (value: unknown): SchemaFieldType | 'null' | 'undefined' => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  if (type === 'string' || type === 'number' || type === 'boolean') return type;
+  return 'object';
+};
+
+// 단일 필드 검증
+const validateField = (
+  value: unknown,
+  field: SchemaField,
+  path: string
+): SchemaValidationError | null => {
+  if (value === undefined || value === null) {
+    return field.required ? { field: path, message: `"${path}" is required` } : null;
+  }
+
+  if (field.type === 'any') return null;
+
+  const actualType = getValueType(value);
+  if (actualType !== field.type || (field.type === 'number' && Number.isNaN(value))) {
+    return { field: path, message: `"${path}" must be ${field.type}, got ${actualType}` };
+  }
+
+  if (field.enum && !field.enum.includes(value as string | number)) {
+    return { field: path, message: `"${path}" must be one of: ${field.enum.join(', ')}` };
+  }
+
+  // 범위 검증 (number는 값, string/array는 길이 기준)
+  const measured = typeof value === 'number'
+    ? value
+    : (typeof value === 'string' || Array.isArray(value)) ? value.length : null;
+  if (measured !== null) {
+    const unit = typeof value === 'number' ? '' : ' in length';
+    if (field.min !== undefined && measured < field.min) {
+      return { field: path, message: `"${path}" must be at least ${field.min}${unit}` };
+    }
+    if (field.max !== undefined && measured > field.max) {
+      return { field: path, message: `"${path}" must be at most ${field.max}${unit}` };
+    }
+  }
+
+  if (field.type === 'array' && field.items) {
+    const items = value as unknown[];
+    for (let i = 0; i < items.length; i++) {
+      const error = validateField(items[i], field.items, `${path}[${i}]`);
+      if (error) return error;
+    }
+  }
+
+  if (field.type === 'object' && field.properties) {
+    return validatePayload(value, field.properties, path);
+  }
+
+  return null;
+};
+
+/**
+ * 스키마에 따라 페이로드 검증
+ * @returns 첫 번째 검증 실패 정보 (통과 시 null)
+ */
+export const validatePayload = (
+  payload: unknown,
+  schema: PayloadSchema,
+  basePath = ''
+): SchemaValidationError | null => {
+  const target = payload ?? {};
+  if (getValueType(target) !== 'object') {
+    return { field: basePath || 'payload', message: `"${basePath || 'payload'}" must be object` };
+  }
+
+  for (const key of Object.keys(schema)) {
+    const path = basePath ? `${basePath}.${key}` : key;
+    const error = validateField((target as Record<string, unknown>)[key], schema[key], path);
+    if (error) return error;
+  }
+
+  return null;
+};
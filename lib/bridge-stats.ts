@@ -0,0 +1,77 @@
+/**
+ * 브릿지 전송량 통계
+ * 앱 → 웹 메시지 수, injectJavaScript 호출 수, 전송 바이트를 초 단위로 집계 (디버그 오버레이 표시용)
+ */
+
+// 초당 전송량
+export interface BridgeThroughput {
+  /** 초당 전송 메시지 수 */
+  messagesPerSecond: number;
+  /** 초당 injectJavaScript 호출 수 (배치 1회 = 1) */
+  injectionsPerSecond: number;
+  /** 초당 전송 바이트 (스크립트 길이 기준) */
+  bytesPerSecond: number;
+  /** 초당 병합으로 생략된 메시지 수 ('latest' 배치) */
+  coalescedPerSecond: number;
+}
+
+interface Bucket {
+  second: number;
+  messages: number;
+  injections: number;
+  bytes: number;
+  coalesced: number;
+}
+
+const createBucket = (second: number): Bucket => ({
+  second,
+  messages: 0,
+  injections: 0,
+  bytes: 0,
+  coalesced: 0,
+});
+
+// 집계 중인 구간 / 직전 1초 구간
+let currentBucket = createBucket(0);
+let lastBucket = createBucket(0);
+
+// 현재 초로 구간 이동
+const rollBucket = () => {
+  const second = Math.floor(Date.now() / 1000);
+  if (second === currentBucket.second) return;
+  lastBucket = currentBucket.second === second - 1 ? currentBucket : createBucket(second - 1);
+  currentBucket = createBucket(second);
+};
+
+/**
+ * injectJavaScript 1회 기록
+ * @param messageCount 포함된 메시지 수
+ * @param bytes 스크립트 길이
+ */
+export const recordInjection = (messageCount: number, bytes: number) => {
+  rollBucket();
+  currentBucket.injections += 1;
+  currentBucket.messages += messageCount;
+  currentBucket.bytes += bytes;
+};
+
+/**
+ * 병합으로 생략된 메시지 기록
+ */
+export const recordCoalesced = () => {
+  rollBucket();
+  currentBucket.coalesced += 1;
+};
+
+/**
+ * 직전 1초 동안의 전송량 조회
+ */
+export const getBridgeThroughput = (): BridgeThroughput => {
+  rollBucket();
+  return {
+    messagesPerSecond: lastBucket.messages,
+    injectionsPerSecond: lastBucket.injections,
+    bytesPerSecond: lastBucket.bytes,
+    coalescedPerSecond: lastBucket.coalesced,
+  };
+};
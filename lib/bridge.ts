@@ -1,14 +1,65 @@
 /**
  * WebView 브릿지 시스템
  * 웹 ↔ 앱 양방향 통신을 위한 범용 핸들러
+ * WebView마다 브릿지 인스턴스(보안 토큰, 핸들러, 전송 대상)를 분리하고, 기존 모듈 함수는 기본 브릿지를 사용
  */
 
 import type { WebView } from 'react-native-webview';
-import { getSecurityToken } from './bridge-client';
+
+import { debugLog } from '@/components/debug-overlay';
+import { APP_CONFIG } from '@/constants/app-config';
+import {
+  clearBinaryTransfers,
+  readWebFileChunk,
+  receiveBinaryChunk,
+  releaseBinaryTransfers,
+  releaseWebFile,
+  isBinaryTransferRejected,
+  resolveBinaryRef,
+} from './bridge-binary';
+import {
+  BATCH_ACTION,
+  BINARY_CHUNK_ACTION,
+  BRIDGE_PROTOCOL_VERSION,
+  BRIDGE_READY_ACTION,
+  CANCEL_REQUEST_ACTION,
+  DEFAULT_BRIDGE_ID,
+  READ_FILE_ACTION,
+  RELEASE_FILE_ACTION,
+  confirmSecurityToken,
+  createSecurityTokenSet,
+  defaultSecurityTokens,
+  getAcceptedSecurityTokens,
+  getBridgeClientScript,
+  rotateSecurityToken,
+  type SecurityTokenSet,
+} from './bridge-client';
+import { hmacSha256Hex, timingSafeEqual } from './bridge-crypto';
+import { BridgeError, isBridgeError, toBridgeError, type BridgeErrorCode } from './bridge-error';
+import { checkBridgeAccess } from './bridge-policy';
+import { validatePayload, type PayloadSchema } from './bridge-schema';
+import { recordCoalesced, recordInjection } from './bridge-stats';
 
 // base64 디코딩 헬퍼
-const decodeBase64Data = (data: any): any => {
+// 청크 전송 참조는 임시 파일 기반 객체로 변환하고 transferIds에 기록 (응답 후 정리)
+const decodeBase64Data = (data: any, transferIds: string[]): any => {
   if (!data || typeof data !== 'object') return data;
+
+  // 청크 전송된 데이터 처리 (기존 base64 형태와 동일하게 전달)
+  if (data.__type === 'binary-ref' && data.transferId) {
+    const resolved = resolveBinaryRef(data);
+    if (!resolved && isBinaryTransferRejected(data.transferId)) {
+      transferIds.push(data.transferId);
+      throw new BridgeError('PAYLOAD_TOO_LARGE', `Binary transfer too large: ${data.transferId}`, {
+        maxBinaryTransferSize: APP_CONFIG.bridge.maxBinaryTransferSize,
+      });
+    }
+    if (!resolved) {
+      throw new BridgeError('INVALID_PAYLOAD', `Incomplete binary transfer: ${data.transferId}`);
+    }
+    transferIds.push(data.transferId);
+    return resolved;
+  }
   
   // base64 인코딩된 데이터 처리
   if (data.__type === 'base64' && data.data) {
@@ -27,7 +78,7 @@ const decodeBase64Data = (data: any): any => {
   const processed: any = Array.isArray(data) ? [] : {};
   for (const key in data) {
     if (data.hasOwnProperty(key)) {
-      processed[key] = decodeBase64Data(data[key]);
+      processed[key] = decodeBase64Data(data[key], transferIds);
     }
   }
   return processed;
@@ -45,89 +96,417 @@ export interface BridgeMessage<T = unknown> {
   requestId?: string;
   // 타임스탬프
   timestamp?: number;
+  // 메시지를 보낸 페이지 URL
+  sourceUrl?: string;
+}
+
+// 메시지 수신 컨텍스트 (WebView onMessage 이벤트 정보)
+export interface BridgeMessageContext {
+  // 메시지를 보낸 페이지 URL (nativeEvent.url)
+  url?: string;
 }
 
 export interface BridgeResponse<T = unknown> {
   requestId: string;
   success: boolean;
   data?: T;
+  // 에러 메시지
   error?: string;
+  // 에러 코드 (success: false일 때)
+  code?: BridgeErrorCode;
+  // 에러 상세 정보 (예: INVALID_PAYLOAD의 field)
+  details?: Record<string, unknown>;
+}
+
+// 핸들러 실행 컨텍스트
+export interface BridgeHandlerContext {
+  // 액션명
+  action: string;
+  // 요청 ID (call로 호출된 경우)
+  requestId?: string;
+  // 메시지를 보낸 브릿지 ID (WebView별 응답/전송 대상 구분)
+  bridgeId: string;
+  // 취소 신호 (웹에서 호출 취소 또는 핸들러 타임아웃 시 abort)
+  signal: AbortSignal;
 }
 
 // 핸들러 타입
+// respond에 BridgeError를 전달하거나 throw 하면 실패 응답으로 전송
 export type BridgeHandler<T = unknown, R = unknown> = (
   payload: T,
-  respond: (data: R) => void
+  respond: (data: R | BridgeError) => void,
+  context: BridgeHandlerContext
 ) => void | Promise<void>;
 
-// 핸들러 레지스트리
-const handlers: Map<string, BridgeHandler> = new Map();
+// 지원 플랫폼
+export type BridgePlatform = 'android' | 'ios' | 'web';
+
+// 액션별 메타데이터 (스키마, 지원 플랫폼, 버전)
+interface HandlerMeta {
+  schema?: PayloadSchema;
+  platforms?: readonly BridgePlatform[];
+  version?: string;
+}
+
+// 등록된 액션 정보 (getCapabilities 응답용)
+export interface RegisteredActionInfo {
+  action: string;
+  // 액션 버전 (미지정 시 '1.0.0')
+  version: string;
+  // 지원 플랫폼 (null이면 제한 없음)
+  platforms: readonly BridgePlatform[] | null;
+  // 현재 플랫폼에서 사용 가능 여부
+  supported: boolean;
+}
+
+// 핸들러 레지스트리 (전역 / 브릿지 인스턴스별)
+interface HandlerRegistry {
+  handlers: Map<string, BridgeHandler>;
+  meta: Map<string, HandlerMeta>;
+}
+
+const createHandlerRegistry = (): HandlerRegistry => ({
+  handlers: new Map(),
+  meta: new Map(),
+});
+
+// 전역 핸들러 (shareGlobalHandlers 브릿지가 공유)
+const globalRegistry = createHandlerRegistry();
+
+/**
+ * 웹 준비 전 메시지 보관 정책
+ * - drop: 보관하지 않고 버림 (프레임/오디오 같은 고빈도 이벤트)
+ * - latest: 같은 액션은 마지막 메시지만 보관
+ * - all: 모두 순서대로 보관 (기본값)
+ */
+export type OutboundQueuePolicy = 'drop' | 'latest' | 'all';
+
+// 대기열 최대 크기 (초과 시 가장 오래된 메시지부터 버림)
+const MAX_OUTBOUND_QUEUE_SIZE = 200;
 
-// WebView 인스턴스 참조
-let webViewInstance: WebView | null = null;
+// 액션별 보관 정책
+const outboundQueuePolicies: Map<string, OutboundQueuePolicy> = new Map([
+  // 이전 페이지 요청에 대한 응답은 새 페이지에 의미 없음
+  ['bridgeResponse', 'drop'],
+  // 플러그인 스트리밍 이벤트
+  ['onCameraFrame', 'drop'],
+  ['onAudioChunk', 'drop'],
+]);
 
 /**
- * WebView 인스턴스 설정
+ * 앱 → 웹 전송 방식
+ * - immediate: 즉시 injectJavaScript (기본값)
+ * - batch: 한 프레임 동안 모아서 한 번에 전송
+ * - latest: batch와 같지만 같은 액션은 프레임당 마지막 메시지만 전송
  */
-export const setBridgeWebView = (webView: WebView | null) => {
-  webViewInstance = webView;
+export type SendBatchMode = 'immediate' | 'batch' | 'latest';
+
+// sendToWeb 옵션
+export interface SendOptions {
+  /** 전송 방식 (미지정 시 액션별 설정, 없으면 immediate) */
+  batch?: SendBatchMode;
+}
+
+// 액션별 전송 방식
+const sendBatchModes: Map<string, SendBatchMode> = new Map([
+  // 플러그인 스트리밍 이벤트
+  ['onCameraFrame', 'latest'],
+  ['onAudioChunk', 'batch'],
+]);
+
+/**
+ * 액션별 대기열 보관 정책 설정 (모든 브릿지에 적용)
+ * @param action 액션명
+ * @param policy 보관 정책 (drop, latest, all)
+ */
+export const setOutboundQueuePolicy = (action: string, policy: OutboundQueuePolicy) => {
+  outboundQueuePolicies.set(action, policy);
 };
 
 /**
- * WebView 인스턴스 가져오기
+ * 액션별 전송 방식 설정 (고빈도 이벤트를 프레임 단위로 병합, 모든 브릿지에 적용)
+ * @param action 액션명
+ * @param mode 전송 방식 (immediate, batch, latest)
  */
-export const getWebViewInstance = () => webViewInstance;
+export const setSendBatchMode = (action: string, mode: SendBatchMode) => {
+  sendBatchModes.set(action, mode);
+};
+
+// 주 버전 추출 ('2.1.0' → 2)
+const getMajorVersion = (version: string) => parseInt(version.split('.')[0], 10);
+
+// 동시 실행 방식
+// parallel: 제한 없음 / serialize: 순서대로 하나씩 / drop-while-busy: 실행 중이면 BUSY 응답 / latest-wins: 새 호출이 이전 호출을 취소
+export type HandlerConcurrency = 'parallel' | 'serialize' | 'drop-while-busy' | 'latest-wins';
 
 // 핸들러 옵션 타입
 export interface HandlerOptions {
-  /** 응답 타임아웃 (ms). 설정 시 응답이 없으면 자동 에러 응답 */
+  /** 응답 타임아웃 (ms). 설정 시 응답이 없으면 자동 에러 응답 후 핸들러에 취소 신호 전달 */
   timeout?: number;
   /** 한 번만 실행 후 자동 해제 */
   once?: boolean;
+  /** 페이로드 스키마. 설정 시 핸들러 실행 전에 검증하고 실패하면 INVALID_PAYLOAD 응답 */
+  schema?: PayloadSchema;
+  /** 지원 플랫폼 (미지정 시 전체). getCapabilities 응답에 표시 */
+  platforms?: readonly BridgePlatform[];
+  /** 액션 버전 (기본 '1.0.0'). 웹에서 기능 감지용 */
+  version?: string;
+  /** 호출 횟수 제한 (windowMs 동안 최대 limit회). 초과 시 RATE_LIMITED 응답 */
+  rateLimit?: { limit: number; windowMs: number };
+  /** 동시 실행 방식 (기본 'parallel'). 응답(또는 실패/취소) 시점을 실행 완료로 판단 */
+  concurrency?: HandlerConcurrency;
+  /** 최대 페이로드 크기 (JSON 직렬화 길이 기준). 초과 시 PAYLOAD_TOO_LARGE 응답 */
+  maxPayloadSize?: number;
 }
 
+// 페이로드 크기 계산 (JSON 직렬화 길이)
+const getPayloadSize = (payload: unknown) => {
+  if (payload === undefined) return 0;
+  try {
+    return JSON.stringify(payload)?.length ?? 0;
+  } catch {
+    return Infinity;
+  }
+};
+
+// 핸들러 등록 범위 (플러그인 매니페스트의 모듈 단위 등록)
+export interface HandlerScope {
+  /** 모듈 이름 */
+  module: string;
+  /** 액션 네임스페이스. 지정 시 '네임스페이스.액션명'으로 등록 (예: camera.takePhoto) */
+  namespace?: string | null;
+}
+
+// 등록 중인 모듈 범위와 등록된 액션명
+let currentScope: { scope: HandlerScope; actions: string[] } | null = null;
+
+// 모듈 범위에서 등록된 전역 액션 → 모듈 이름 (중복 검사용)
+const moduleActions: Map<string, string> = new Map();
+
 /**
- * 핸들러 등록
- * @param action 액션명 (예: 'getDeviceInfo', 'showToast')
- * @param handler 핸들러 함수
- * @param options 핸들러 옵션 (timeout, once)
+ * 모듈 범위에서 핸들러 등록
+ * register 실행 중 호출된 registerHandler에 네임스페이스를 적용 (내부 액션 '__' 제외)
+ * 이미 등록된 액션명(같은 모듈, 다른 모듈, 매니페스트 밖 핸들러)은 등록 실패
+ * (개발 모드에서는 에러 발생, 배포 빌드에서는 에러 로그 후 먼저 등록된 핸들러 유지)
+ * @returns 등록된 액션명 목록 (기능 플래그 해제용)
  */
-export const registerHandler = <T = unknown, R = unknown>(
+export const registerHandlersInScope = (scope: HandlerScope, register: () => void): string[] => {
+  const previous = currentScope;
+  const entry = { scope, actions: [] as string[] };
+  currentScope = entry;
+  try {
+    register();
+  } finally {
+    currentScope = previous;
+  }
+  return entry.actions;
+};
+
+// 모듈 핸들러와 겹치는 전역 액션 등록인지 검사 (개발 모드에서는 에러 발생)
+const isDuplicateAction = (action: string) => {
+  const module = currentScope?.scope.module;
+  const owner = moduleActions.get(action);
+  if (!globalRegistry.handlers.has(action) || (!module && !owner)) return false;
+
+  const message = `[Bridge] Duplicate action "${action}" registered by: ${owner ?? 'app'}, ${module ?? 'app'}`;
+  if (__DEV__) {
+    throw new Error(message);
+  }
+  console.error(message);
+  return true;
+};
+
+// 레지스트리에 핸들러 추가 (실행 제어 래퍼 적용)
+// @returns 등록 여부 (전역 액션 중복 시 false)
+const addHandler = <T, R>(
+  registry: HandlerRegistry,
   action: string,
   handler: BridgeHandler<T, R>,
   options?: HandlerOptions
-) => {
-  const wrappedHandler: BridgeHandler = (payload, respond) => {
+): boolean => {
+  // 모듈 범위에서 등록 중이면 네임스페이스 적용
+  const namespace = currentScope?.scope.namespace;
+  if (namespace && !action.startsWith('__')) {
+    action = `${namespace}.${action}`;
+  }
+  if (registry === globalRegistry) {
+    if (isDuplicateAction(action)) return false;
+    if (currentScope) {
+      moduleActions.set(action, currentScope.scope.module);
+      currentScope.actions.push(action);
+    }
+  }
+
+  const concurrency = options?.concurrency ?? 'parallel';
+
+  // 액션별 실행 상태
+  const callTimestamps: number[] = [];
+  const waiting: (() => void)[] = [];
+  let activeCount = 0;
+  let cancelLatest: (() => void) | null = null;
+
+  // 핸들러 1회 실행 (응답/실패/취소, async 핸들러가 끝나거나 timeout 없는 동기 핸들러가 반환되면 다음 대기 호출 시작)
+  const run = (
+    payload: unknown,
+    respond: (data: unknown) => void,
+    context: BridgeHandlerContext
+  ): void | Promise<void> => {
     let responded = false;
+    let finished = false;
     let timer: ReturnType<typeof setTimeout> | null = null;
+    activeCount++;
 
-    // 타임아웃 설정
-    if (options?.timeout) {
-      timer = setTimeout(() => {
-        if (!responded) {
-          responded = true;
-          respond({ success: false, error: `Handler timeout: ${action}` });
-        }
-      }, options.timeout);
-    }
+    // 외부 취소(웹 호출 취소)와 타임아웃을 하나의 신호로 합침
+    const controller = new AbortController();
+    const onExternalAbort = () => controller.abort();
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      activeCount--;
+      if (timer) clearTimeout(timer);
+      context.signal.removeEventListener('abort', onExternalAbort);
+      if (cancelLatest === supersede) cancelLatest = null;
+      waiting.shift()?.();
+    };
 
     // 응답 함수 래핑
     const wrappedRespond = (data: unknown) => {
       if (responded) return;
       responded = true;
-      if (timer) clearTimeout(timer);
       respond(data);
+      finish();
+    };
+
+    // latest-wins: 새 호출이 들어오면 이 호출을 취소
+    const supersede = () => {
+      wrappedRespond(new BridgeError('CANCELLED', `Superseded by a newer call: ${action}`));
+      controller.abort();
     };
 
+    controller.signal.addEventListener('abort', finish);
+    if (context.signal.aborted) {
+      controller.abort();
+    } else {
+      context.signal.addEventListener('abort', onExternalAbort);
+    }
+
+    if (concurrency === 'latest-wins') {
+      cancelLatest?.();
+      cancelLatest = supersede;
+    }
+
+    // 타임아웃 설정
+    if (options?.timeout) {
+      timer = setTimeout(() => {
+        wrappedRespond(new BridgeError('TIMEOUT', `Handler timeout: ${action}`));
+        controller.abort();
+      }, options.timeout);
+    }
+
+    try {
+      const result = handler(payload as T, wrappedRespond, {
+        ...context,
+        signal: controller.signal,
+      });
+      // async 핸들러는 respond 호출 여부와 관계없이 끝나면 실행 슬롯 반환
+      if (result instanceof Promise) {
+        return result.finally(finish);
+      }
+      // 동기 핸들러가 응답 없이 반환되면 (send 호출, 콜백에서 나중에 응답 등) timeout이 없을 때 바로 반환
+      // timeout이 있으면 응답 또는 타임아웃까지 슬롯 유지
+      if (!options?.timeout) finish();
+      return result;
+    } catch (error) {
+      finish();
+      throw error;
+    }
+  };
+
+  const wrappedHandler: BridgeHandler = (payload, respond, context) => {
+    // 페이로드 크기 제한
+    if (options?.maxPayloadSize !== undefined) {
+      const size = getPayloadSize(payload);
+      if (size > options.maxPayloadSize) {
+        respond(new BridgeError(
+          'PAYLOAD_TOO_LARGE',
+          `Payload too large: ${action} (${size} > ${options.maxPayloadSize})`,
+          { size, maxPayloadSize: options.maxPayloadSize }
+        ));
+        return;
+      }
+    }
+
+    // 호출 횟수 제한 (슬라이딩 윈도우)
+    if (options?.rateLimit) {
+      const { limit, windowMs } = options.rateLimit;
+      const now = Date.now();
+      while (callTimestamps.length > 0 && now - callTimestamps[0] >= windowMs) {
+        callTimestamps.shift();
+      }
+      if (callTimestamps.length >= limit) {
+        respond(new BridgeError('RATE_LIMITED', `Rate limit exceeded: ${action}`, {
+          limit,
+          windowMs,
+          retryAfter: windowMs - (now - callTimestamps[0]),
+        }));
+        return;
+      }
+      callTimestamps.push(now);
+    }
+
+    if (concurrency === 'drop-while-busy' && activeCount > 0) {
+      respond(new BridgeError('BUSY', `Handler busy: ${action}`));
+      return;
+    }
+
     // once 옵션
     if (options?.once) {
-      handlers.delete(action);
+      registry.handlers.delete(action);
+      registry.meta.delete(action);
+    }
+
+    // serialize: 실행 중인 호출이 끝날 때까지 대기 (대기 중 취소된 호출은 건너뜀)
+    if (concurrency === 'serialize' && activeCount > 0) {
+      waiting.push(() => {
+        if (context.signal.aborted) {
+          waiting.shift()?.();
+          return;
+        }
+        Promise.resolve()
+          .then(() => run(payload, respond, context))
+          .catch((error) => {
+            console.error(`[Bridge] Handler error: ${action}`, error);
+            respond(toBridgeError(error));
+          });
+      });
+      return;
     }
 
-    handler(payload as T, wrappedRespond as (data: R) => void);
+    return run(payload, respond, context);
   };
 
-  handlers.set(action, wrappedHandler);
+  registry.handlers.set(action, wrappedHandler);
+  registry.meta.set(action, {
+    schema: options?.schema,
+    platforms: options?.platforms,
+    version: options?.version,
+  });
+  return true;
+};
+
+/**
+ * 핸들러 등록 (전역, shareGlobalHandlers 브릿지가 공유)
+ * @param action 액션명 (예: 'getDeviceInfo', 'showToast')
+ * @param handler 핸들러 함수
+ * @param options 핸들러 옵션 (timeout, once, schema, platforms, version, rateLimit, concurrency, maxPayloadSize)
+ */
+export const registerHandler = <T = unknown, R = unknown>(
+  action: string,
+  handler: BridgeHandler<T, R>,
+  options?: HandlerOptions
+) => {
+  if (!addHandler(globalRegistry, action, handler, options)) return;
   console.log(`[Bridge] Handler registered: ${action}`, options || '');
 };
 
@@ -135,163 +514,833 @@ export const registerHandler = <T = unknown, R = unknown>(
  * 핸들러 해제
  */
 export const unregisterHandler = (action: string) => {
-  handlers.delete(action);
+  globalRegistry.handlers.delete(action);
+  globalRegistry.meta.delete(action);
+  moduleActions.delete(action);
   console.log(`[Bridge] Handler unregistered: ${action}`);
 };
 
 /**
- * 모든 핸들러 해제
+ * 모든 전역 핸들러 해제
  */
 export const clearHandlers = () => {
-  handlers.clear();
+  globalRegistry.handlers.clear();
+  globalRegistry.meta.clear();
+  moduleActions.clear();
 };
 
 /**
- * 웹에서 온 메시지 처리
+ * 등록된 액션별 페이로드 스키마 조회 (웹 개발자용 문서 생성 등에 사용)
  */
-export const handleBridgeMessage = (messageData: string): boolean => {
-  try {
-    const data = JSON.parse(messageData);
-    
+export const getHandlerSchemas = (): Record<string, PayloadSchema> => {
+  const result: Record<string, PayloadSchema> = {};
+  globalRegistry.meta.forEach((meta, action) => {
+    if (meta.schema) result[action] = meta.schema;
+  });
+  return result;
+};
+
+// 레지스트리의 액션 목록 (내부 액션 제외)
+const listActions = (registries: HandlerRegistry[], platform: BridgePlatform): RegisteredActionInfo[] => {
+  const metaByAction: Map<string, HandlerMeta> = new Map();
+  // 앞쪽 레지스트리(인스턴스)가 우선
+  [...registries].reverse().forEach(registry => {
+    registry.meta.forEach((meta, action) => metaByAction.set(action, meta));
+  });
+
+  return Array.from(metaByAction.keys())
+    .filter(action => !action.startsWith('__'))
+    .sort()
+    .map(action => {
+      const meta = metaByAction.get(action);
+      const platforms = meta?.platforms ?? null;
+      return {
+        action,
+        version: meta?.version ?? '1.0.0',
+        platforms,
+        supported: !platforms || platforms.includes(platform),
+      };
+    });
+};
+
+// 미들웨어 실행 컨텍스트
+export interface BridgeMiddlewareContext extends BridgeHandlerContext {
+  /** 페이로드 (미들웨어에서 변경하면 핸들러에 변경된 값 전달) */
+  payload: unknown;
+  /** 메시지를 보낸 페이지 URL */
+  sourceUrl?: string;
+  /** 응답 전송 (next 호출 없이 응답하면 핸들러 실행을 건너뜀) */
+  respond: (data: unknown) => void;
+  /** 이미 응답했는지 여부 */
+  readonly responded: boolean;
+}
+
+// 미들웨어 타입 (next 호출 시 다음 미들웨어 → 핸들러 순으로 실행)
+export type BridgeMiddleware = (
+  context: BridgeMiddlewareContext,
+  next: () => Promise<void>
+) => void | Promise<void>;
+
+// 미들웨어 목록 (등록 순서대로 실행, 모든 브릿지에 적용)
+const middlewares: BridgeMiddleware[] = [];
+
+/**
+ * 브릿지 미들웨어 등록
+ * 로깅, 시간 측정, 인증, 플랫폼 검사, 에러 정규화 등 공통 처리를 모든 핸들러에 적용
+ * @returns 등록 해제 함수
+ */
+export const useBridgeMiddleware = (middleware: BridgeMiddleware) => {
+  middlewares.push(middleware);
+  return () => {
+    const index = middlewares.indexOf(middleware);
+    if (index !== -1) middlewares.splice(index, 1);
+  };
+};
+
+// 미들웨어 체인 실행 후 마지막에 핸들러 호출
+const runMiddlewares = (
+  context: BridgeMiddlewareContext,
+  invokeHandler: () => void | Promise<void>
+): Promise<void> => {
+  const chain = [...middlewares];
+  const dispatch = async (index: number): Promise<void> => {
+    if (index === chain.length) return invokeHandler();
+    let nextCalled = false;
+    await chain[index](context, () => {
+      if (nextCalled) {
+        return Promise.reject(new Error('next() called multiple times'));
+      }
+      nextCalled = true;
+      return dispatch(index + 1);
+    });
+  };
+  return dispatch(0);
+};
+
+// 브릿지 생성 옵션
+export interface BridgeOptions {
+  /** 전역 핸들러(registerHandler) 사용 여부 (기본 true). false면 인스턴스에 등록한 핸들러만 호출 가능 */
+  shareGlobalHandlers?: boolean;
+}
+
+// WebView별 브릿지 인스턴스 (보안 토큰, 핸들러, 전송 대상이 분리됨)
+export interface BridgeInstance {
+  /** 브릿지 ID */
+  readonly id: string;
+  /** 전역 핸들러 공유 여부 */
+  readonly shareGlobalHandlers: boolean;
+  /** WebView 인스턴스 연결 (null이면 연결 해제) */
+  setWebView: (webView: WebView | null) => void;
+  /** 연결된 WebView 인스턴스 */
+  getWebView: () => WebView | null;
+  /** 웹에서 온 메시지 처리 (WebView onMessage에서 사용) */
+  handleMessage: (messageData: string, context?: BridgeMessageContext) => boolean;
+  /** 이 WebView로 메시지 전송 */
+  sendToWeb: <T = unknown>(action: string, payload?: T, options?: SendOptions) => void;
+  /** 이 WebView에 요청 후 응답 대기 */
+  callWeb: <T = unknown, R = unknown>(action: string, payload?: T, timeout?: number) => Promise<R>;
+  /** 이 브릿지 전용 핸들러 등록 (같은 이름의 전역 핸들러보다 우선) */
+  registerHandler: <T = unknown, R = unknown>(action: string, handler: BridgeHandler<T, R>, options?: HandlerOptions) => void;
+  /** 이 브릿지 전용 핸들러 해제 */
+  unregisterHandler: (action: string) => void;
+  /** 이 브릿지에서 호출 가능한 액션 목록 */
+  getRegisteredActions: (platform: BridgePlatform) => RegisteredActionInfo[];
+  /** 웹 페이지가 메시지를 받을 준비가 되었는지 */
+  isReady: () => boolean;
+  /** 웹 준비 상태 해제 (페이지 로드 시작 시 호출) */
+  resetReady: () => void;
+  /** 웹 클라이언트 프로토콜 버전 (준비 신호 전에는 null) */
+  getWebClientVersion: () => string | null;
+  /** 현재 토큰이 담긴 브릿지 클라이언트 스크립트 (토큰이 바뀌기 전까지 같은 문자열) */
+  getClientScript: () => string;
+  /**
+   * 클라이언트 스크립트 변경 리스너 등록 (페이지 준비 신호로 토큰이 교체될 때)
+   * @returns 등록 해제 함수
+   */
+  subscribeClientScript: (listener: () => void) => () => void;
+  /** 보안 토큰 강제 교체 (현재 페이지는 새 페이지가 준비될 때까지 이전 토큰으로 허용) */
+  rotateToken: () => void;
+}
+
+// 생성된 브릿지 (id → 인스턴스)
+const bridges: Map<string, BridgeInstance> = new Map();
+
+// 브릿지 인스턴스 생성 (상태는 클로저에 보관)
+const createBridgeInstance = (
+  id: string,
+  tokens: SecurityTokenSet,
+  shareGlobalHandlers: boolean
+): BridgeInstance => {
+  // 이 브릿지 전용 핸들러
+  const registry = createHandlerRegistry();
+
+  // WebView 인스턴스 참조
+  let webViewInstance: WebView | null = null;
+
+  // 웹 페이지가 메시지를 받을 준비가 되었는지 여부
+  let isWebReady = false;
+
+  // 웹 준비 전 보관 중인 메시지
+  const outboundQueue: { action: string; payload: unknown }[] = [];
+
+  // 다음 프레임에 전송할 메시지
+  const pendingBatch: { action: string; message: Record<string, unknown> }[] = [];
+  let batchFrame: number | null = null;
+
+  // 웹 클라이언트가 알려준 프로토콜 버전
+  let webClientVersion: string | null = null;
+
+  // 실행 중인 요청 (requestId → 취소 컨트롤러)
+  const inFlightRequests: Map<string, AbortController> = new Map();
+
+  // 사용된 nonce (nonce → 만료 시각), 재전송 차단용
+  const usedNonces: Map<string, number> = new Map();
+  // 서명 검증 대기열 (비동기 검증 중에도 메시지 순서 유지)
+  let signedMessageQueue: Promise<void> = Promise.resolve();
+
+  // 현재 토큰의 클라이언트 스크립트 (토큰 교체 시 다시 생성)
+  let clientScript: { token: string; script: string } | null = null;
+  const clientScriptListeners: Set<() => void> = new Set();
+
+  const getClientScript = () => {
+    if (clientScript?.token !== tokens.current) {
+      clientScript = { token: tokens.current, script: getBridgeClientScript(tokens) };
+    }
+    return clientScript.script;
+  };
+
+  const notifyClientScript = () => {
+    clientScriptListeners.forEach(listener => listener());
+  };
+
+  // 로그 접두어 (기본 브릿지는 기존 형식 유지)
+  const tag = id === DEFAULT_BRIDGE_ID ? '[Bridge]' : `[Bridge:${id}]`;
+
+  // 액션 핸들러 조회 (인스턴스 → 전역 순)
+  const findHandler = (action: string) =>
+    registry.handlers.get(action) ?? (shareGlobalHandlers ? globalRegistry.handlers.get(action) : undefined);
+
+  const findMeta = (action: string) =>
+    registry.meta.get(action) ?? (shareGlobalHandlers ? globalRegistry.meta.get(action) : undefined);
+
+  const setWebView = (webView: WebView | null) => {
+    webViewInstance = webView;
+    if (!webView) {
+      isWebReady = false;
+    }
+  };
+
+  const resetReady = () => {
+    if (isWebReady) {
+      console.log(`${tag} Web page not ready. Queueing outbound messages.`);
+    }
+    isWebReady = false;
+    clearBinaryTransfers(id);
+  };
+
+  const isReady = () => isWebReady && webViewInstance !== null;
+
+  // 대기열에 메시지 보관 (액션별 정책 적용)
+  const enqueueOutbound = (action: string, payload: unknown) => {
+    const policy = outboundQueuePolicies.get(action) ?? 'all';
+    if (policy === 'drop') return;
+
+    if (policy === 'latest') {
+      for (let i = outboundQueue.length - 1; i >= 0; i--) {
+        if (outboundQueue[i].action === action) {
+          outboundQueue.splice(i, 1);
+        }
+      }
+    }
+
+    outboundQueue.push({ action, payload });
+    if (outboundQueue.length > MAX_OUTBOUND_QUEUE_SIZE) {
+      const dropped = outboundQueue.shift();
+      console.warn(`${tag} Outbound queue full. Dropped oldest: ${dropped?.action}`);
+    }
+  };
+
+  // 웹 클라이언트 버전 호환성 확인 (주 버전이 다르면 경고 후 웹에 알림)
+  const checkClientVersion = (version: unknown) => {
+    webClientVersion = typeof version === 'string' ? version : null;
+    const compatible = webClientVersion !== null &&
+      getMajorVersion(webClientVersion) === getMajorVersion(BRIDGE_PROTOCOL_VERSION);
+    if (compatible) return;
+
+    const detail = `app: ${BRIDGE_PROTOCOL_VERSION}, web: ${webClientVersion ?? 'unknown'}`;
+    console.warn(`${tag} Incompatible web client protocol version (${detail})`);
+    debugLog('warn', '⚠️ 브릿지 버전 불일치', detail);
+    sendToWeb('bridgeVersionMismatch', {
+      appVersion: BRIDGE_PROTOCOL_VERSION,
+      webVersion: webClientVersion,
+    });
+  };
+
+  // 웹 준비 완료 처리 후 대기열 순서대로 전송
+  const markWebReady = () => {
+    isWebReady = true;
+    if (outboundQueue.length === 0) return;
+
+    const pending = outboundQueue.splice(0, outboundQueue.length);
+    console.log(`${tag} Web page ready. Flushing ${pending.length} queued message(s)`);
+    pending.forEach(({ action, payload }) => sendToWeb(action, payload));
+  };
+
+  // 보안 토큰 검증 후 사용된 토큰 반환 (실패 시 null)
+  const verifyToken = (raw: any): string | null => {
+    const token = getAcceptedSecurityTokens(tokens).find(candidate => candidate === raw.__token);
+    if (!token) {
+      console.warn(`${tag} Invalid security token. Message rejected.`);
+      return null;
+    }
+    return token;
+  };
+
+  // 서명 검증 후 실제 메시지와 사용된 토큰 반환 (실패 시 null)
+  const verifySignedMessage = async (raw: any): Promise<{ message: any; token: string } | null> => {
+    const { signing } = APP_CONFIG.bridge;
+
+    if (typeof raw.signed !== 'string' || typeof raw.__sig !== 'string') {
+      console.warn(`${tag} Unsigned message rejected.`);
+      return null;
+    }
+
+    let token: string | undefined;
+    for (const candidate of getAcceptedSecurityTokens(tokens)) {
+      if (timingSafeEqual(await hmacSha256Hex(candidate, raw.signed), raw.__sig)) {
+        token = candidate;
+        break;
+      }
+    }
+    if (!token) {
+      console.warn(`${tag} Invalid message signature. Message rejected.`);
+      return null;
+    }
+
+    const message = JSON.parse(raw.signed);
+    if (message.protocol !== raw.protocol) {
+      console.warn(`${tag} Signed protocol mismatch. Message rejected.`);
+      return null;
+    }
+
+    // 타임스탬프 오차 확인
+    const now = Date.now();
+    if (typeof message.timestamp !== 'number' || Math.abs(now - message.timestamp) > signing.maxClockSkew) {
+      console.warn(`${tag} Stale message rejected.`);
+      return null;
+    }
+
+    // nonce 재사용 확인 (만료된 nonce는 정리)
+    usedNonces.forEach((expiresAt, nonce) => {
+      if (expiresAt < now) usedNonces.delete(nonce);
+    });
+    if (typeof message.__nonce !== 'string' || usedNonces.has(message.__nonce)) {
+      console.warn(`${tag} Replayed message rejected.`);
+      debugLog('warn', '🚫 재전송 메시지 차단', message.protocol);
+      return null;
+    }
+    usedNonces.set(message.__nonce, now + signing.maxClockSkew * 2);
+
+    return { message, token };
+  };
+
+  // 출처 기반 접근 제어 (차단되면 로그 기록 후 true)
+  const isAccessDenied = (action: string, sourceUrl: string | undefined): boolean => {
+    if (checkBridgeAccess(action, sourceUrl).allowed) return false;
+    const origin = sourceUrl || 'unknown';
+    console.warn(`${tag} Access denied: ${action} from ${origin}`);
+    debugLog('warn', '🚫 브릿지 호출 차단', `${action} ← ${origin}`);
+    return true;
+  };
+
+  const handleMessage = (messageData: string, context?: BridgeMessageContext): boolean => {
+    let raw: any;
+    try {
+      raw = JSON.parse(messageData);
+    } catch {
+      return false; // JSON 파싱 실패 = 브릿지 메시지 아님
+    }
+
     // app:// 프로토콜 체크
-    if (!data.protocol || !data.protocol.startsWith('app://')) {
+    if (typeof raw?.protocol !== 'string' || !raw.protocol.startsWith('app://')) {
       return false; // 브릿지 메시지가 아님
     }
 
+    // 서명 검증은 비동기이므로 도착 순서대로 이어서 처리
+    if (APP_CONFIG.bridge.signing.enabled) {
+      signedMessageQueue = signedMessageQueue
+        .then(() => verifySignedMessage(raw))
+        .then(verified => {
+          if (verified) processMessage(verified.message, verified.token, context);
+        })
+        .catch(error => console.error(`${tag} Signed message error`, error));
+      return true;
+    }
+
     // 보안 토큰 검증 (외부에서 보낸 메시지 차단)
-    if (data.__token !== getSecurityToken()) {
-      console.warn('[Bridge] Invalid security token. Message rejected.');
+    const token = verifyToken(raw);
+    if (!token) {
       return false;
     }
+    return processMessage(raw, token, context);
+  };
 
-    const action = data.protocol.replace('app://', '');
-    
-    // base64 데이터 디코딩
-    const decodedPayload = decodeBase64Data(data.payload);
-    
-    const message: BridgeMessage = {
-      ...data,
-      action,
-      payload: decodedPayload,
-      timestamp: data.timestamp || Date.now(),
-    };
+  // 검증된 메시지 처리
+  const processMessage = (data: any, token: string, context?: BridgeMessageContext): boolean => {
+    try {
+      const action = data.protocol.replace('app://', '');
 
-    console.log(`[Bridge] Received: ${action}`, message.payload);
+      // 웹 준비 완료 신호 (대기열 전송)
+      if (action === BRIDGE_READY_ACTION) {
+        console.log(`${tag} Web page ready`, data.payload);
+        // 준비된 페이지의 토큰 확인 후 다음 페이지용 토큰으로 교체
+        if (confirmSecurityToken(token, tokens)) {
+          notifyClientScript();
+        }
+        markWebReady();
+        checkClientVersion(data.payload?.version);
+        return true;
+      }
 
-    const handler = handlers.get(action);
-    if (handler) {
-      // 응답 함수 생성
-      const respond = (responseData: unknown) => {
-        if (message.requestId) {
+      // 웹에서 호출 취소 (AbortSignal 또는 타임아웃)
+      if (action === CANCEL_REQUEST_ACTION) {
+        const requestId = data.payload?.requestId;
+        const controller = requestId ? inFlightRequests.get(requestId) : undefined;
+        if (controller) {
+          console.log(`${tag} Request cancelled: ${requestId}`);
+          inFlightRequests.delete(requestId);
+          controller.abort();
+        }
+        return true;
+      }
+
+      // 파일 전송 액션도 출처 기반 접근 제어 적용
+      const isFileAction = action === BINARY_CHUNK_ACTION || action === RELEASE_FILE_ACTION || action === READ_FILE_ACTION;
+      if (isFileAction && isAccessDenied(action, context?.url)) {
+        if (action === READ_FILE_ACTION && data.requestId) {
           sendToWeb('bridgeResponse', {
-            requestId: message.requestId,
-            success: true,
-            data: responseData,
+            requestId: data.requestId,
+            success: false,
+            error: `Access denied: ${action} is not allowed from ${context?.url || 'unknown'}`,
+            code: 'ACCESS_DENIED',
           });
         }
+        return true;
+      }
+
+      // 큰 Blob/File 청크 수신 (임시 파일에 기록)
+      if (action === BINARY_CHUNK_ACTION) {
+        receiveBinaryChunk(data.payload, id);
+        return true;
+      }
+
+      // 웹에 전달한 파일 삭제 요청
+      if (action === RELEASE_FILE_ACTION) {
+        releaseWebFile(data.payload?.id);
+        return true;
+      }
+
+      // 웹에 전달한 파일 청크 읽기 요청
+      if (action === READ_FILE_ACTION) {
+        const { id: fileId, offset = 0, length = 0 } = data.payload || {};
+        const chunk = readWebFileChunk(fileId, offset, length);
+        sendToWeb('bridgeResponse', chunk
+          ? { requestId: data.requestId, success: true, data: chunk }
+          : { requestId: data.requestId, success: false, error: `File not found: ${fileId}`, code: 'UNAVAILABLE' });
+        return true;
+      }
+
+      // 실패 응답 전송 (call로 호출된 경우에만)
+      const respondError = (error: BridgeError) => {
+        releaseBinaryTransfers(transferIds);
+        if (!data.requestId) return;
+        sendToWeb('bridgeResponse', {
+          requestId: data.requestId,
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details,
+        });
       };
 
+      // base64 데이터 디코딩
+      const transferIds: string[] = [];
+      let decodedPayload: unknown;
       try {
-        handler(message.payload, respond);
+        decodedPayload = decodeBase64Data(data.payload, transferIds);
       } catch (error) {
-        console.error(`[Bridge] Handler error: ${action}`, error);
-        if (message.requestId) {
-          sendToWeb('bridgeResponse', {
-            requestId: message.requestId,
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
+        respondError(toBridgeError(error, 'Failed to decode payload', 'INVALID_PAYLOAD'));
+        return true;
+      }
+
+      const message: BridgeMessage = {
+        ...data,
+        action,
+        payload: decodedPayload,
+        timestamp: data.timestamp || Date.now(),
+        sourceUrl: context?.url,
+      };
+
+      console.log(`${tag} Received: ${action}`, message.payload);
+
+      // 출처 기반 접근 제어
+      if (isAccessDenied(action, message.sourceUrl)) {
+        const origin = message.sourceUrl || 'unknown';
+        respondError(new BridgeError(
+          'ACCESS_DENIED',
+          `Access denied: ${action} is not allowed from ${origin}`,
+          { origin }
+        ));
+        return true;
+      }
+
+      const handler = findHandler(action);
+      if (!handler) {
+        console.warn(`${tag} No handler for action: ${action}`);
+        respondError(new BridgeError('UNKNOWN_ACTION', `Unknown action: ${action}`));
+        return true;
+      }
+
+      // 페이로드 스키마 검증 (핸들러 실행 전)
+      const schema = findMeta(action)?.schema;
+      if (schema) {
+        const validationError = validatePayload(message.payload, schema);
+        if (validationError) {
+          console.warn(`${tag} Invalid payload: ${action}`, validationError.message);
+          respondError(new BridgeError(
+            'INVALID_PAYLOAD',
+            `Invalid payload: ${validationError.message}`,
+            { field: validationError.field }
+          ));
+          return true;
         }
       }
-    } else {
-      console.warn(`[Bridge] No handler for action: ${action}`);
+
+      // 취소 컨트롤러 (call로 호출된 요청은 웹에서 취소 가능)
+      const controller = new AbortController();
       if (message.requestId) {
+        inFlightRequests.set(message.requestId, controller);
+      }
+
+      // 응답 함수 생성 (한 번만 전송, 취소된 요청의 응답은 버림)
+      let responded = false;
+      const respond = (responseData: unknown) => {
+        if (responded) return;
+        responded = true;
+        releaseBinaryTransfers(transferIds);
+        if (!message.requestId) return;
+        inFlightRequests.delete(message.requestId);
+        if (controller.signal.aborted) return;
+
+        if (isBridgeError(responseData)) {
+          respondError(responseData);
+          return;
+        }
         sendToWeb('bridgeResponse', {
           requestId: message.requestId,
-          success: false,
-          error: `Unknown action: ${action}`,
+          success: true,
+          data: responseData,
         });
+      };
+
+      const middlewareContext: BridgeMiddlewareContext = {
+        action,
+        requestId: message.requestId,
+        bridgeId: id,
+        signal: controller.signal,
+        payload: message.payload,
+        sourceUrl: message.sourceUrl,
+        respond,
+        get responded() {
+          return responded;
+        },
+      };
+
+      // 미들웨어 → 핸들러 실행 (동기 throw / 비동기 reject 모두 실패 응답으로 변환)
+      runMiddlewares(middlewareContext, () => handler(middlewareContext.payload, respond, {
+        action,
+        requestId: message.requestId,
+        bridgeId: id,
+        signal: controller.signal,
+      }))
+        .catch((error) => {
+          console.error(`${tag} Handler error: ${action}`, error);
+          respond(toBridgeError(error));
+        });
+
+      return true; // 브릿지 메시지 처리됨
+    } catch (error) {
+      console.error(`${tag} Failed to process message`, error);
+      return false;
+    }
+  };
+
+  // 메시지 스크립트 주입 (전송량 통계 기록)
+  const injectMessage = (action: string, messageJSON: string, messageCount: number) => {
+    if (!webViewInstance) return;
+
+    // IIFE로 즉시 실행 후 메모리에서 제거됨
+    // 이벤트만 발생시키고 코드는 GC됨
+    const script = `(function(){console.log('[Bridge-Inject] Sending message, action: ${action}');var msg=${messageJSON};console.log('[Bridge-Inject] Message object:', msg);var e=new CustomEvent('nativeMessage',{detail:msg});window.dispatchEvent(e);console.log('[Bridge-Inject] Event dispatched');window.onNativeMessage&&window.onNativeMessage(msg)})();true;`;
+
+    webViewInstance.injectJavaScript(script);
+    recordInjection(messageCount, script.length);
+  };
+
+  // 모아둔 메시지를 한 번에 전송 (1개면 단일 메시지로 전송)
+  const flushBatch = () => {
+    if (batchFrame !== null) {
+      cancelAnimationFrame(batchFrame);
+      batchFrame = null;
+    }
+    if (pendingBatch.length === 0) return;
+
+    const batch = pendingBatch.splice(0, pendingBatch.length);
+
+    // 전송 전에 WebView가 사라졌거나 페이지가 바뀌었으면 대기열로 이동
+    if (!webViewInstance || !isWebReady) {
+      batch.forEach(({ action, message }) => enqueueOutbound(action, message.payload));
+      return;
+    }
+
+    if (batch.length === 1) {
+      injectMessage(batch[0].action, JSON.stringify(batch[0].message), 1);
+      return;
+    }
+
+    const batchMessage = {
+      protocol: `native://${BATCH_ACTION}`,
+      action: BATCH_ACTION,
+      payload: { messages: batch.map(({ message }) => message) },
+      timestamp: Date.now(),
+    };
+    injectMessage(BATCH_ACTION, JSON.stringify(batchMessage), batch.length);
+  };
+
+  const sendToWeb = <T = unknown>(action: string, payload?: T, options?: SendOptions) => {
+    if (!webViewInstance || !isWebReady) {
+      console.log(`${tag} sendToWeb called - action: ${action}, webView: ${webViewInstance ? 'available' : 'NULL'}`);
+      enqueueOutbound(action, payload);
+      return;
+    }
+
+    const message = {
+      protocol: `native://${action}`,
+      action,
+      payload,
+      timestamp: Date.now(),
+    };
+
+    const mode = options?.batch ?? sendBatchModes.get(action) ?? 'immediate';
+    if (mode !== 'immediate') {
+      // latest: 같은 액션의 이전 메시지는 버림
+      if (mode === 'latest') {
+        const index = pendingBatch.findIndex(entry => entry.action === action);
+        if (index !== -1) {
+          pendingBatch.splice(index, 1);
+          recordCoalesced();
+        }
+      }
+      pendingBatch.push({ action, message });
+      if (batchFrame === null) {
+        batchFrame = requestAnimationFrame(flushBatch);
       }
+      return;
     }
 
-    return true; // 브릿지 메시지 처리됨
-  } catch {
-    return false; // JSON 파싱 실패 = 브릿지 메시지 아님
-  }
+    console.log(`${tag} sendToWeb called - action: ${action}, webView: available`);
+
+    // 순서 보장: 모아둔 메시지를 먼저 전송
+    flushBatch();
+
+    // JSON.stringify를 한 번만 실행하여 최적화
+    const messageJSON = JSON.stringify(message);
+    injectMessage(action, messageJSON, 1);
+
+    // 로그 출력 조건: base64 데이터나 cameraFrame 같은 대용량 데이터는 로그 제외
+    const shouldLog = !action.includes('cameraFrame') &&
+      !messageJSON.includes('base64');
+
+    if (shouldLog) {
+      console.log(`${tag} ✓ Sent to web: ${action}`, payload);
+    } else {
+      // cameraFrame도 첫 10개는 로그 출력
+      if (action.includes('cameraFrame') || action.includes('cameraStream')) {
+        console.log(`${tag} ✓ Frame sent to web via action: '${action}' (payload size: ${messageJSON.length} bytes)`);
+      }
+    }
+  };
+
+  const callWeb = <T = unknown, R = unknown>(
+    action: string,
+    payload?: T,
+    timeout = 10000
+  ): Promise<R> => {
+    return new Promise((resolve, reject) => {
+      const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const responseHandler = `__response_${requestId}`;
+
+      // 타임아웃 설정 (응답 핸들러도 함께 해제하여 누수 방지)
+      const timer = setTimeout(() => {
+        registry.handlers.delete(responseHandler);
+        registry.meta.delete(responseHandler);
+        reject(new BridgeError('TIMEOUT', `Request timeout: ${action}`));
+      }, timeout);
+
+      // 일회성 응답 핸들러 등록 (이 브릿지에서 온 응답만 처리)
+      addHandler(registry, responseHandler, (response: BridgeResponse<R>) => {
+        clearTimeout(timer);
+        if (response.success) {
+          resolve(response.data as R);
+        } else {
+          reject(new BridgeError(
+            response.code ?? 'INTERNAL_ERROR',
+            response.error || 'Unknown error',
+            response.details
+          ));
+        }
+      }, { once: true });
+
+      // 웹으로 요청 전송
+      sendToWeb(action, { ...payload as object, requestId, responseAction: responseHandler });
+    });
+  };
+
+  return {
+    id,
+    shareGlobalHandlers,
+    setWebView,
+    getWebView: () => webViewInstance,
+    handleMessage,
+    sendToWeb,
+    callWeb,
+    registerHandler: (action, handler, options) => {
+      addHandler(registry, action, handler, options);
+      console.log(`${tag} Handler registered: ${action}`, options || '');
+    },
+    unregisterHandler: (action) => {
+      registry.handlers.delete(action);
+      registry.meta.delete(action);
+      console.log(`${tag} Handler unregistered: ${action}`);
+    },
+    getRegisteredActions: (platform) =>
+      listActions(shareGlobalHandlers ? [registry, globalRegistry] : [registry], platform),
+    isReady,
+    resetReady,
+    getWebClientVersion: () => webClientVersion,
+    getClientScript,
+    subscribeClientScript: (listener) => {
+      clientScriptListeners.add(listener);
+      return () => {
+        clientScriptListeners.delete(listener);
+      };
+    },
+    rotateToken: () => {
+      rotateSecurityToken(tokens);
+      notifyClientScript();
+    },
+  };
 };
 
+// 기본 브릿지 (메인 WebView, 기존 모듈 함수가 사용)
+const defaultBridge = createBridgeInstance(DEFAULT_BRIDGE_ID, defaultSecurityTokens, true);
+bridges.set(DEFAULT_BRIDGE_ID, defaultBridge);
+
 /**
- * 앱에서 웹으로 메시지 전송
+ * 브릿지 생성 (팝업, 탭, 결제창 같은 추가 WebView용)
+ * 같은 ID가 이미 있으면 기존 인스턴스 반환
+ * @param id 브릿지 ID (WebView ID)
  */
-export const sendToWeb = <T = unknown>(action: string, payload?: T) => {
-  console.log(`[Bridge] sendToWeb called - action: ${action}, webView: ${webViewInstance ? 'available' : 'NULL'}`);
-  
-  if (!webViewInstance) {
-    console.error('[Bridge] ⚠️⚠️⚠️ WebView is NULL! Cannot send to web!');
-    console.error(`[Bridge] - action: ${action}`);
-    console.error(`[Bridge] - payload type: ${typeof payload}`);
-    return;
-  }
+export const createBridge = (id: string, options?: BridgeOptions): BridgeInstance => {
+  const existing = bridges.get(id);
+  if (existing) return existing;
 
-  const message = {
-    protocol: `native://${action}`,
-    action,
-    payload,
-    timestamp: Date.now(),
-  };
+  const bridge = createBridgeInstance(id, createSecurityTokenSet(), options?.shareGlobalHandlers ?? true);
+  bridges.set(id, bridge);
+  console.log(`[Bridge] Bridge created: ${id}`);
+  return bridge;
+};
+
+/**
+ * 브릿지 조회 (미지정 시 기본 브릿지)
+ */
+export const getBridge = (id: string = DEFAULT_BRIDGE_ID): BridgeInstance | undefined => bridges.get(id);
 
-  // JSON.stringify를 한 번만 실행하여 최적화
-  const messageJSON = JSON.stringify(message);
+/**
+ * 생성된 브릿지 ID 목록
+ */
+export const getBridgeIds = () => Array.from(bridges.keys());
 
-  // IIFE로 즉시 실행 후 메모리에서 제거됨
-  // 이벤트만 발생시키고 코드는 GC됨
-  const script = `(function(){console.log('[Bridge-Inject] Sending message, action: ${action}');var msg=${messageJSON};console.log('[Bridge-Inject] Message object:', msg);var e=new CustomEvent('nativeMessage',{detail:msg});window.dispatchEvent(e);console.log('[Bridge-Inject] Event dispatched');window.onNativeMessage&&window.onNativeMessage(msg)})();true;`;
+/**
+ * 브릿지 제거 (WebView 언마운트 시 호출, 기본 브릿지는 제거 불가)
+ */
+export const destroyBridge = (id: string) => {
+  const bridge = bridges.get(id);
+  if (!bridge || id === DEFAULT_BRIDGE_ID) return;
 
-  webViewInstance.injectJavaScript(script);
-  
-  // 로그 출력 조건: base64 데이터나 cameraFrame 같은 대용량 데이터는 로그 제외
-  const shouldLog = !action.includes('cameraFrame') && 
-    !messageJSON.includes('base64');
-  
-  if (shouldLog) {
-    console.log(`[Bridge] ✓ Sent to web: ${action}`, payload);
-  } else {
-    // cameraFrame도 첫 10개는 로그 출력
-    if (action.includes('cameraFrame') || action.includes('cameraStream')) {
-      console.log(`[Bridge] ✓ Frame sent to web via action: '${action}' (payload size: ${messageJSON.length} bytes)`);
-    }
-  }
+  bridge.setWebView(null);
+  clearBinaryTransfers(id);
+  bridges.delete(id);
+  console.log(`[Bridge] Bridge destroyed: ${id}`);
 };
 
 /**
- * 웹에서 앱 함수 호출 후 Promise로 응답 대기 (앱에서 웹으로 요청)
+ * 모든 브릿지의 WebView로 메시지 전송 (설정 변경 알림 등)
  */
-export const callWeb = <T = unknown, R = unknown>(
-  action: string,
-  payload?: T,
-  timeout = 10000
-): Promise<R> => {
-  return new Promise((resolve, reject) => {
-    const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    // 타임아웃 설정
-    const timer = setTimeout(() => {
-      reject(new Error(`Request timeout: ${action}`));
-    }, timeout);
-
-    // 일회성 응답 핸들러 등록
-    const responseHandler = `__response_${requestId}`;
-    registerHandler(responseHandler, (response: BridgeResponse<R>) => {
-      clearTimeout(timer);
-      unregisterHandler(responseHandler);
-      if (response.success) {
-        resolve(response.data as R);
-      } else {
-        reject(new Error(response.error || 'Unknown error'));
-      }
-    });
-
-    // 웹으로 요청 전송
-    sendToWeb(action, { ...payload as object, requestId, responseAction: responseHandler });
-  });
+export const broadcastToWeb = <T = unknown>(action: string, payload?: T, options?: SendOptions) => {
+  bridges.forEach(bridge => bridge.sendToWeb(action, payload, options));
 };
+
+/**
+ * WebView 인스턴스 설정 (기본 브릿지)
+ */
+export const setBridgeWebView = (webView: WebView | null) => defaultBridge.setWebView(webView);
+
+/**
+ * WebView 인스턴스 가져오기 (기본 브릿지)
+ */
+export const getWebViewInstance = () => defaultBridge.getWebView();
+
+/**
+ * 웹 페이지 준비 상태 해제 (페이지 이동/새로고침 시작 시 호출, 기본 브릿지)
+ * 다시 준비 신호가 올 때까지 sendToWeb 메시지는 대기열에 보관
+ */
+export const resetBridgeReady = () => defaultBridge.resetReady();
+
+/**
+ * 웹 페이지가 메시지를 받을 준비가 되었는지 확인 (기본 브릿지)
+ */
+export const isBridgeReady = () => defaultBridge.isReady();
+
+/**
+ * 웹 클라이언트 프로토콜 버전 조회 (기본 브릿지, 준비 신호 수신 전에는 null)
+ */
+export const getWebClientVersion = () => defaultBridge.getWebClientVersion();
+
+/**
+ * 등록된 액션 목록 조회 (기본 브릿지, 내부 액션 제외)
+ * @param platform 지원 여부를 판단할 현재 플랫폼
+ */
+export const getRegisteredActions = (platform: BridgePlatform) => defaultBridge.getRegisteredActions(platform);
+
+/**
+ * 웹에서 온 메시지 처리 (기본 브릿지)
+ * @param messageData onMessage로 받은 원본 문자열
+ * @param context 메시지를 보낸 페이지 정보 (출처 기반 접근 제어에 사용)
+ */
+export const handleBridgeMessage = (messageData: string, context?: BridgeMessageContext) =>
+  defaultBridge.handleMessage(messageData, context);
+
+/**
+ * 앱에서 웹으로 메시지 전송 (기본 브릿지)
+ * WebView가 없거나 웹 페이지가 준비되지 않았으면 대기열에 보관 후 준비 신호 수신 시 전송
+ * @param options 전송 방식 (batch/latest는 다음 프레임에 한 번에 전송)
+ */
+export const sendToWeb = <T = unknown>(action: string, payload?: T, options?: SendOptions) =>
+  defaultBridge.sendToWeb(action, payload, options);
+
+/**
+ * 웹에서 앱 함수 호출 후 Promise로 응답 대기 (앱에서 웹으로 요청, 기본 브릿지)
+ */
+export const callWeb = <T = unknown, R = unknown>(action: string, payload?: T, timeout = 10000) =>
+  defaultBridge.callWeb<T, R>(action, payload, timeout);
@@ -0,0 +1,135 @@
+/**
+ * 앱 내 브라우저 관련 핸들러 (expo-web-browser)
+ * SFSafariViewController / Chrome Custom Tabs로 페이지 열기, SSO 로그인 세션 처리
+ */
+
+import { AppState, Platform } from 'react-native';
+
+import { getBridge, registerHandler, type HandlerOptions } from '@/lib/bridge';
+import { BridgeError } from '@/lib/bridge-error';
+import type { PayloadSchema } from '@/lib/bridge-schema';
+import { parseUrl } from '@/lib/url-pattern';
+
+// 브라우저 표시 옵션
+interface BrowserOptions {
+  /** 툴바 배경색 */
+  toolbarColor?: string;
+  /** 보조 툴바 배경색 (Android) */
+  secondaryToolbarColor?: string;
+  /** 버튼 색상 (iOS) */
+  controlsColor?: string;
+  /** 닫기 버튼 문구 (iOS) */
+  dismissButtonStyle?: 'done' | 'close' | 'cancel';
+  /** 읽기 모드 (iOS) */
+  readerMode?: boolean;
+  /** 스크롤 시 툴바 접기 (iOS) */
+  enableBarCollapsing?: boolean;
+  /** 페이지 제목 표시 (Android) */
+  showTitle?: boolean;
+}
+
+const browserOptionsSchema: PayloadSchema = {
+  toolbarColor: { type: 'string', description: '툴바 배경색' },
+  secondaryToolbarColor: { type: 'string', description: '보조 툴바 배경색 (Android)' },
+  controlsColor: { type: 'string', description: '버튼 색상 (iOS)' },
+  dismissButtonStyle: { type: 'string', enum: ['done', 'close', 'cancel'], description: '닫기 버튼 문구 (iOS)' },
+  readerMode: { type: 'boolean', description: '읽기 모드 (iOS)' },
+  enableBarCollapsing: { type: 'boolean', description: '스크롤 시 툴바 접기 (iOS)' },
+  showTitle: { type: 'boolean', description: '페이지 제목 표시 (Android)' },
+};
+
+// 한 번에 하나의 브라우저만 열 수 있음
+const singleBrowser: HandlerOptions = { concurrency: 'drop-while-busy' };
+
+// 브라우저가 열린 뒤 앱이 백그라운드로 가지 않으면 닫힌 것으로 판단하는 시간 (ms)
+const APP_LEAVE_TIMEOUT = 5000;
+
+// http/https URL만 허용 (그 외 스킴은 INVALID_PAYLOAD)
+const assertWebUrl = (url: string) => {
+  const scheme = parseUrl(url)?.scheme;
+  if (scheme !== 'http' && scheme !== 'https') {
+    throw new BridgeError('INVALID_PAYLOAD', `Only http/https URLs can be opened: ${url}`, { url });
+  }
+};
+
+// 앱이 백그라운드로 갔다가 다시 활성화될 때까지 대기 (Android Custom Tabs 닫힘 감지)
+// 일정 시간 안에 백그라운드로 가지 않거나 호출이 취소되면 리스너를 해제하고 종료
+const waitForAppReturn = (signal: AbortSignal) => new Promise<void>(resolve => {
+  let left = AppState.currentState !== 'active';
+
+  const done = () => {
+    clearTimeout(leaveTimer);
+    subscription.remove();
+    signal.removeEventListener('abort', done);
+    resolve();
+  };
+
+  const subscription = AppState.addEventListener('change', state => {
+    if (state !== 'active') {
+      left = true;
+      return;
+    }
+    if (left) done();
+  });
+  const leaveTimer = setTimeout(() => {
+    if (!left) done();
+  }, APP_LEAVE_TIMEOUT);
+
+  if (signal.aborted) {
+    done();
+  } else {
+    signal.addEventListener('abort', done);
+  }
+});
+
+export const registerBrowserHandlers = () => {
+  // 앱 내 브라우저 열기 (닫히면 onDismiss 이벤트 전달)
+  registerHandler<{ url: string } & BrowserOptions>('openInAppBrowser', async ({ url, ...options }, respond, { bridgeId, signal }) => {
+    assertWebUrl(url);
+    const WebBrowser = await import('expo-web-browser');
+    const opening = WebBrowser.openBrowserAsync(url, options);
+
+    // iOS: 브라우저가 닫힐 때 결과 반환 / Android: 열리자마자 'opened' 반환
+    let type: string = 'dismiss';
+    if (Platform.OS === 'ios') {
+      respond({ success: true });
+      type = (await opening).type;
+    } else {
+      await opening;
+      respond({ success: true });
+      await waitForAppReturn(signal);
+    }
+
+    getBridge(bridgeId)?.sendToWeb('onDismiss', { url, type });
+  }, {
+    ...singleBrowser,
+    schema: {
+      url: { type: 'string', required: true, min: 1, description: '열 URL (http/https)' },
+      ...browserOptionsSchema,
+    },
+  });
+
+  // 로그인 세션 열기 (redirectUrl로 이동하면 닫히고 해당 URL 반환)
+  registerHandler<{ url: string; redirectUrl?: string; preferEphemeralSession?: boolean } & BrowserOptions>('openAuthSession', async ({ url, redirectUrl, ...options }, respond) => {
+    assertWebUrl(url);
+    const WebBrowser = await import('expo-web-browser');
+    const Linking = await import('expo-linking');
+
+    const result = await WebBrowser.openAuthSessionAsync(url, redirectUrl ?? Linking.createURL('auth'), options);
+    if (result.type === 'success') {
+      respond({ url: result.url });
+      return;
+    }
+    throw new BridgeError('CANCELLED', `Auth session ended: ${result.type}`, { type: result.type });
+  }, {
+    ...singleBrowser,
+    schema: {
+      url: { type: 'string', required: true, min: 1, description: '로그인 URL (http/https)' },
+      redirectUrl: { type: 'string', description: '로그인 완료 후 이동할 URL (기본: 앱 스킴 auth 경로)' },
+      preferEphemeralSession: { type: 'boolean', description: '쿠키를 공유하지 않는 세션 (iOS)' },
+      ...browserOptionsSchema,
+    },
+  });
+
+  console.log('[Bridge] Browser handlers registered');
+};
@@ -0,0 +1,28 @@
+/**
+ * 기능 조회(Capability Discovery) 관련 핸들러
+ * 웹에서 앱이 지원하는 액션과 프로토콜 버전을 확인하는 용도
+ */
+
+import { getBridge, registerHandler, type BridgePlatform } from '@/lib/bridge';
+import { BRIDGE_PROTOCOL_VERSION } from '@/lib/bridge-client';
+import { Platform } from 'react-native';
+
+export const registerCapabilitiesHandlers = () => {
+  // 지원 액션 목록 및 버전 정보 조회 (메시지를 보낸 WebView의 브릿지 기준)
+  registerHandler('getCapabilities', async (_payload, respond, { bridgeId }) => {
+    const Application = await import('expo-application');
+    const platform = Platform.OS as BridgePlatform;
+    const bridge = getBridge(bridgeId);
+
+    respond({
+      protocolVersion: BRIDGE_PROTOCOL_VERSION,
+      webClientVersion: bridge?.getWebClientVersion() ?? null,
+      platform,
+      appVersion: Application.nativeApplicationVersion,
+      buildVersion: Application.nativeBuildVersion,
+      actions: bridge?.getRegisteredActions(platform) ?? [],
+    });
+  });
+
+  console.log('[Bridge] Capabilities handlers registered');
+};
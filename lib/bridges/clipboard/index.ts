@@ -3,6 +3,7 @@
  */
 
 import { registerHandler } from '@/lib/bridge';
+import { BridgeError } from '@/lib/bridge-error';
 
 export const registerClipboardHandlers = () => {
   // 클립보드 복사 (expo-clipboard 필요: npx expo install expo-clipboard)
@@ -11,19 +12,25 @@ export const registerClipboardHandlers = () => {
       const Clipboard = await import('expo-clipboard');
       await Clipboard.setStringAsync(text);
       respond({ success: true });
-    } catch (error) {
-      respond({ success: false, error: 'Clipboard not available' });
+    } catch {
+      throw new BridgeError('UNAVAILABLE', 'Clipboard not available');
     }
+  }, {
+    maxPayloadSize: 1024 * 1024,
+    schema: {
+      text: { type: 'string', required: true, description: '복사할 텍스트' },
+    },
   });
 
   // 클립보드 읽기
-  registerHandler('getClipboard', async (_payload, respond) => {
+  registerHandler('getClipboard', async (_payload, respond, { signal }) => {
     try {
       const Clipboard = await import('expo-clipboard');
+      if (signal.aborted) return;
       const text = await Clipboard.getStringAsync();
       respond({ success: true, text });
-    } catch (error) {
-      respond({ success: false, error: 'Clipboard not available' });
+    } catch {
+      throw new BridgeError('UNAVAILABLE', 'Clipboard not available');
     }
   });
 
@@ -3,6 +3,7 @@
  */
 
 import { registerHandler } from '@/lib/bridge';
+import { BridgeError } from '@/lib/bridge-error';
 
 export const registerDeviceHandlers = () => {
   // 디바이스 정보 요청 (expo-device 사용 - 프로덕션 빌드에서도 동작)
@@ -26,11 +27,7 @@ export const registerDeviceHandlers = () => {
       });
     } catch (error) {
       console.error('[Bridge] getDeviceInfo error:', error);
-      respond({
-        error: 'Failed to get device info',
-        platform: null,
-        version: null,
-      });
+      throw new BridgeError('UNAVAILABLE', 'Failed to get device info');
     }
   });
 
@@ -46,11 +43,7 @@ export const registerDeviceHandlers = () => {
       });
     } catch (error) {
       console.error('[Bridge] getAppInfo error:', error);
-      respond({
-        error: 'Failed to get app info',
-        name: null,
-        version: null,
-      });
+      throw new BridgeError('UNAVAILABLE', 'Failed to get app info');
     }
   });
 
@@ -0,0 +1,29 @@
+/**
+ * 기능 플래그 관련 핸들러
+ * 웹에서 현재 기능 플래그를 조회하고 변경 이벤트(featureFlagsChanged)를 받는 용도
+ */
+
+import { broadcastToWeb, registerHandler, setOutboundQueuePolicy } from '@/lib/bridge';
+import { getFeatureFlags, getFeatureFlagSource, subscribeFeatureFlags } from '@/lib/feature-flags';
+
+// 변경 이벤트 구독 해제 함수 (재등록 시 중복 구독 방지)
+let unsubscribe: (() => void) | null = null;
+
+export const registerFeatureFlagHandlers = () => {
+  // 기능 플래그 조회
+  registerHandler('getFeatureFlags', (_payload, respond) => {
+    respond({
+      flags: { ...getFeatureFlags() },
+      source: getFeatureFlagSource(),
+    });
+  });
+
+  // 플래그 변경 시 모든 WebView에 알림 (페이지 준비 전에는 마지막 값만 보관)
+  setOutboundQueuePolicy('featureFlagsChanged', 'latest');
+  unsubscribe?.();
+  unsubscribe = subscribeFeatureFlags((flags, changed, source) => {
+    broadcastToWeb('featureFlagsChanged', { flags: { ...flags }, changed, source });
+  });
+
+  console.log('[Bridge] Feature flag handlers registered');
+};
@@ -0,0 +1,44 @@
+/**
+ * 네이티브 헤더 관련 핸들러
+ * 현재 페이지의 헤더 표시 여부, 제목, 버튼 지정 (페이지 이동 시 앱 설정으로 복귀)
+ * 오른쪽 버튼을 누르면 해당 WebView에 headerButtonPressed 이벤트 ({ id }) 전달
+ */
+
+import { registerHandler } from '@/lib/bridge';
+import { setHeaderOverride, type HeaderOptions } from '@/lib/header';
+
+export const registerHeaderHandlers = () => {
+  // 헤더 설정 (지정한 항목만 변경, 요청한 WebView 기준)
+  registerHandler<HeaderOptions>('setHeader', (options, respond, { bridgeId }) => {
+    setHeaderOverride(bridgeId, options);
+    respond({ success: true });
+  }, {
+    schema: {
+      visible: { type: 'boolean', description: '헤더 표시 여부' },
+      title: { type: 'string', description: '제목 (미지정 시 document.title)' },
+      showBackButton: { type: 'boolean', description: '뒤로 버튼 표시' },
+      showCloseButton: { type: 'boolean', description: '닫기 버튼 표시 (시작 URL로 이동)' },
+      rightButtons: {
+        type: 'array',
+        max: 3,
+        description: '오른쪽 버튼 (누르면 headerButtonPressed 이벤트)',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', required: true, min: 1, description: '버튼 ID' },
+            icon: { type: 'string', description: '아이콘 (Ionicons 이름)' },
+            label: { type: 'string', description: '문구 (아이콘이 없을 때 표시)' },
+          },
+        },
+      },
+    },
+  });
+
+  // 헤더 설정 초기화 (URL 규칙 기준으로 복귀)
+  registerHandler('resetHeader', (_payload, respond, { bridgeId }) => {
+    setHeaderOverride(bridgeId, null);
+    respond({ success: true });
+  });
+
+  console.log('[Bridge] Header handlers registered');
+};
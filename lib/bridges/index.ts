@@ -1,11 +1,19 @@
 /**
  * Bridge Handlers 통합 모듈
- * 그룹별로 분리된 핸들러들을 통합 등록
+ * 플러그인 매니페스트(constants/bridge-plugins.json)에 따라 그룹별 핸들러를 등록
  */
 
+import pluginManifest from '@/constants/bridge-plugins.json';
+import { registerHandlersInScope, unregisterHandler } from '@/lib/bridge';
+import { isFeatureEnabled, subscribeFeatureFlags } from '@/lib/feature-flags';
+
+import { registerBrowserHandlers } from './browser';
 import { registerCameraHandlers } from './camera';
+import { registerCapabilitiesHandlers } from './capabilities';
 import { registerClipboardHandlers } from './clipboard';
 import { registerDeviceHandlers } from './device';
+import { registerFeatureFlagHandlers } from './feature-flags';
+import { registerHeaderHandlers } from './header';
 import { registerKeepAwakeHandlers } from './keep-awake';
 import { registerMicrophoneHandlers } from './microphone';
 import { registerNavigationBarHandlers } from './navigation-bar';
@@ -13,25 +21,118 @@ import { registerOrientationHandlers } from './orientation';
 import { registerScreenPinningHandlers } from './screen-pinning';
 import { registerSplashHandlers } from './splash';
 import { registerStatusBarHandlers } from './status-bar';
+import { registerTabsHandlers } from './tabs';
 import { registerUIHandlers } from './ui';
 import { registerWebviewHandlers } from './webview';
 
+// 플러그인 매니페스트 항목
+export interface BridgeModuleEntry {
+  /** 모듈 이름 (BRIDGE_MODULES 키) */
+  module: string;
+  /** 사용 여부 (기본 true) */
+  enabled?: boolean;
+  /** 기능 플래그 이름. 지정 시 플래그가 켜져 있을 때만 등록 (런타임 변경 시 등록/해제) */
+  feature?: string;
+  /** 액션 네임스페이스. 지정 시 '네임스페이스.액션명'으로 등록 */
+  namespace?: string | null;
+  /** 모듈 등록 함수에 전달할 옵션 */
+  options?: Record<string, unknown>;
+  /** 플러그인 패키지명 (scripts/setup-plugins.js 에서 autolinking 설정) */
+  package?: string;
+  /** 패키지 android 폴더에 남길 모듈 폴더 */
+  keepModules?: string[];
+}
+
+// 모듈 이름 → 등록 함수 (새 모듈은 여기에 추가하고 매니페스트에 항목 추가)
+const BRIDGE_MODULES: Record<string, (options: Record<string, unknown>) => void> = {
+  device: registerDeviceHandlers,
+  ui: registerUIHandlers,
+  clipboard: registerClipboardHandlers,
+  webview: registerWebviewHandlers,
+  browser: registerBrowserHandlers,
+  tabs: registerTabsHandlers,
+  header: registerHeaderHandlers,
+  splash: registerSplashHandlers,
+  orientation: registerOrientationHandlers,
+  'status-bar': registerStatusBarHandlers,
+  'navigation-bar': registerNavigationBarHandlers,
+  'screen-pinning': registerScreenPinningHandlers,
+  'keep-awake': registerKeepAwakeHandlers,
+  camera: registerCameraHandlers,
+  microphone: registerMicrophoneHandlers,
+  capabilities: registerCapabilitiesHandlers,
+  'feature-flags': registerFeatureFlagHandlers,
+};
+
+// 등록된 모듈 → 등록한 액션명 (기능 플래그가 꺼지면 해제)
+const registeredModules: Map<string, string[]> = new Map();
+
+// 기능 플래그 변경 구독 해제 함수
+let unsubscribeFeatureFlags: (() => void) | null = null;
+
+/**
+ * 매니페스트 항목 목록
+ */
+export const getBridgeModuleManifest = (): BridgeModuleEntry[] => pluginManifest.modules;
+
 /**
- * 모든 내장 핸들러 등록
+ * 매니페스트에서 사용 설정된 모듈의 핸들러 등록
+ * feature가 지정된 모듈은 기능 플래그가 켜져 있을 때만 등록
+ * 이미 등록된 액션명은 등록 실패 (개발 모드에서는 에러 발생, registerHandlersInScope 참고)
  */
 export const registerBuiltInHandlers = () => {
-  registerDeviceHandlers();
-  registerUIHandlers();
-  registerClipboardHandlers();
-  registerWebviewHandlers();
-  registerSplashHandlers();
-  registerOrientationHandlers();
-  registerStatusBarHandlers();
-  registerNavigationBarHandlers();
-  registerScreenPinningHandlers();
-  registerKeepAwakeHandlers();
-  registerCameraHandlers();
-  registerMicrophoneHandlers();
+  // 다시 호출되면 이전에 등록한 모듈 핸들러부터 해제
+  registeredModules.forEach(actions => actions.forEach(unregisterHandler));
+  registeredModules.clear();
+
+  getBridgeModuleManifest().forEach(entry => {
+    if (entry.enabled === false) {
+      console.log(`[Bridge] Module disabled: ${entry.module}`);
+      return;
+    }
+    if (entry.feature && !isFeatureEnabled(entry.feature)) {
+      console.log(`[Bridge] Module skipped (feature "${entry.feature}" off): ${entry.module}`);
+      return;
+    }
+    registerModule(entry);
+  });
+
+  // 기능 플래그 변경 시 해당 모듈 등록/해제
+  unsubscribeFeatureFlags?.();
+  unsubscribeFeatureFlags = subscribeFeatureFlags(syncFeatureModules);
 
   console.log('[Bridge] All built-in handlers registered');
 };
+
+// 모듈 1개 등록
+const registerModule = (entry: BridgeModuleEntry) => {
+  const register = BRIDGE_MODULES[entry.module];
+  if (!register) {
+    console.warn(`[Bridge] Unknown module in manifest: ${entry.module}`);
+    return;
+  }
+
+  const actions = registerHandlersInScope(
+    { module: entry.module, namespace: entry.namespace },
+    () => register(entry.options ?? {})
+  );
+  registeredModules.set(entry.module, actions);
+};
+
+// 기능 플래그에 따라 모듈 등록/해제
+const syncFeatureModules = () => {
+  getBridgeModuleManifest().forEach(entry => {
+    if (entry.enabled === false || !entry.feature) return;
+
+    const registered = registeredModules.has(entry.module);
+    const enabled = isFeatureEnabled(entry.feature);
+
+    if (enabled && !registered) {
+      registerModule(entry);
+    } else if (!enabled && registered) {
+      registeredModules.get(entry.module)?.forEach(unregisterHandler);
+      registeredModules.delete(entry.module);
+      console.log(`[Bridge] Module unregistered (feature "${entry.feature}" off): ${entry.module}`);
+    }
+  });
+};
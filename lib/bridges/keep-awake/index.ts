@@ -3,24 +3,17 @@
  */
 
 import { registerHandler } from '@/lib/bridge';
+import { toBridgeError } from '@/lib/bridge-error';
 
 let isKeepAwakeActive = false;
 
 export const registerKeepAwakeHandlers = () => {
   // 절전 방지 상태 확인
   registerHandler('getKeepAwake', async (_payload, respond) => {
-    try {
-      respond({ 
-        success: true, 
-        isActive: isKeepAwakeActive 
-      });
-    } catch (error) {
-      respond({ 
-        success: false, 
-        isActive: false, 
-        error: error instanceof Error ? error.message : 'Failed to get keep awake status' 
-      });
-    }
+    respond({ 
+      success: true, 
+      isActive: isKeepAwakeActive 
+    });
   });
 
   // 절전 방지 활성화
@@ -31,10 +24,7 @@ export const registerKeepAwakeHandlers = () => {
       isKeepAwakeActive = true;
       respond({ success: true, isActive: true });
     } catch (error) {
-      respond({ 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Failed to activate keep awake' 
-      });
+      throw toBridgeError(error, 'Failed to activate keep awake');
     }
   });
 
@@ -46,10 +36,7 @@ export const registerKeepAwakeHandlers = () => {
       isKeepAwakeActive = false;
       respond({ success: true, isActive: false });
     } catch (error) {
-      respond({ 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Failed to deactivate keep awake' 
-      });
+      throw toBridgeError(error, 'Failed to deactivate keep awake');
     }
   });
 
@@ -3,6 +3,7 @@
  */
 
 import { registerHandler } from '@/lib/bridge';
+import { BridgeError, toBridgeError } from '@/lib/bridge-error';
 
 // 저장된 네비게이션 바 상태
 let savedNavigationBarState: { 
@@ -17,8 +18,7 @@ export const registerNavigationBarHandlers = () => {
     try {
       const { Platform } = await import('react-native');
       if (Platform.OS !== 'android') {
-        respond({ success: false, error: 'Only supported on Android' });
-        return;
+        throw new BridgeError('UNSUPPORTED_PLATFORM', 'Only supported on Android', { platform: Platform.OS });
       }
       
       const NavigationBar = await import('expo-navigation-bar');
@@ -34,9 +34,9 @@ export const registerNavigationBarHandlers = () => {
         saved: savedNavigationBarState,
       });
     } catch (error) {
-      respond({ success: false, error: error instanceof Error ? error.message : 'Failed to get navigation bar state' });
+      throw toBridgeError(error, 'Failed to get navigation bar state');
     }
-  });
+  }, { platforms: ['android'] });
 
   // 네비게이션 바 설정 (Android 전용) - 통합 설정
   registerHandler<{ 
@@ -44,12 +44,11 @@ export const registerNavigationBarHandlers = () => {
     color?: string; 
     buttonStyle?: 'light' | 'dark';
     behavior?: 'overlay-swipe' | 'inset-swipe' | 'inset-touch';
-  }>('setNavigationBar', async ({ visible, color, buttonStyle, behavior = 'overlay-swipe' }, respond) => {
+  }>('setNavigationBar', async ({ visible, color, buttonStyle, behavior = 'overlay-swipe' }, respond, { signal }) => {
     try {
       const { Platform } = await import('react-native');
       if (Platform.OS !== 'android') {
-        respond({ success: false, error: 'Only supported on Android' });
-        return;
+        throw new BridgeError('UNSUPPORTED_PLATFORM', 'Only supported on Android', { platform: Platform.OS });
       }
       
       const NavigationBar = await import('expo-navigation-bar');
@@ -63,6 +62,9 @@ export const registerNavigationBarHandlers = () => {
         };
       }
       
+      // 호출이 취소되면 남은 단계는 적용하지 않음
+      if (signal.aborted) return;
+      
       if (visible !== undefined) {
         if (!visible) {
           await NavigationBar.setBehaviorAsync(behavior);
@@ -70,18 +72,31 @@ export const registerNavigationBarHandlers = () => {
         await NavigationBar.setVisibilityAsync(visible ? 'visible' : 'hidden');
       }
       
+      if (signal.aborted) return;
+      
       if (color) {
         await NavigationBar.setBackgroundColorAsync(color);
       }
       
+      if (signal.aborted) return;
+      
       if (buttonStyle) {
         await NavigationBar.setButtonStyleAsync(buttonStyle);
       }
       
       respond({ success: true, visible, color, buttonStyle });
     } catch (error) {
-      respond({ success: false, error: error instanceof Error ? error.message : 'Failed to set navigation bar' });
+      throw toBridgeError(error, 'Failed to set navigation bar');
     }
+  }, {
+    platforms: ['android'],
+    concurrency: 'serialize',
+    schema: {
+      visible: { type: 'boolean', description: '네비게이션 바 표시 여부' },
+      color: { type: 'string', description: '배경색 (Hex)' },
+      buttonStyle: { type: 'string', enum: ['light', 'dark'], description: '버튼 스타일' },
+      behavior: { type: 'string', enum: ['overlay-swipe', 'inset-swipe', 'inset-touch'], description: '숨김 시 동작 방식' },
+    },
   });
 
   // 네비게이션 바 원래 상태로 복원 (Android 전용)
@@ -89,8 +104,7 @@ export const registerNavigationBarHandlers = () => {
     try {
       const { Platform } = await import('react-native');
       if (Platform.OS !== 'android') {
-        respond({ success: false, error: 'Only supported on Android' });
-        return;
+        throw new BridgeError('UNSUPPORTED_PLATFORM', 'Only supported on Android', { platform: Platform.OS });
       }
       
       const NavigationBar = await import('expo-navigation-bar');
@@ -110,9 +124,9 @@ export const registerNavigationBarHandlers = () => {
         respond({ success: true, restored: { visible: true } });
       }
     } catch (error) {
-      respond({ success: false, error: 'Failed to restore navigation bar' });
+      throw toBridgeError(error, 'Failed to restore navigation bar');
     }
-  });
+  }, { platforms: ['android'] });
 
   console.log('[Bridge] NavigationBar handlers registered');
 };
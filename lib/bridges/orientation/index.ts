@@ -3,6 +3,7 @@
  */
 
 import { registerHandler } from '@/lib/bridge';
+import { BridgeError, toBridgeError } from '@/lib/bridge-error';
 
 export const registerOrientationHandlers = () => {
   // 화면 방향 조회
@@ -39,8 +40,8 @@ export const registerOrientationHandlers = () => {
         lock: lockMap[lockState] || 'unknown',
         raw: { orientation, lockState },
       });
-    } catch (error) {
-      respond({ success: false, error: 'Screen orientation not available' });
+    } catch {
+      throw new BridgeError('UNAVAILABLE', 'Screen orientation not available');
     }
   });
 
@@ -64,15 +65,28 @@ export const registerOrientationHandlers = () => {
 
         const lockValue = lockMap[mode];
         if (lockValue === undefined) {
-          respond({ success: false, error: `Invalid mode: ${mode}. Use: auto, portrait, landscape, portrait-up, portrait-down, landscape-left, landscape-right` });
-          return;
+          throw new BridgeError(
+            'INVALID_PAYLOAD',
+            `Invalid mode: ${mode}. Use: auto, portrait, landscape, portrait-up, portrait-down, landscape-left, landscape-right`,
+            { field: 'mode' }
+          );
         }
 
         await ScreenOrientation.lockAsync(lockValue);
         respond({ success: true, mode });
       } catch (error) {
-        respond({ success: false, error: error instanceof Error ? error.message : 'Failed to set orientation' });
+        throw toBridgeError(error, 'Failed to set orientation');
       }
+    },
+    {
+      schema: {
+        mode: {
+          type: 'string',
+          required: true,
+          enum: ['auto', 'all', 'portrait', 'portrait-up', 'portrait-down', 'landscape', 'landscape-left', 'landscape-right'],
+          description: '화면 방향 모드',
+        },
+      },
     }
   );
 
@@ -83,7 +97,7 @@ export const registerOrientationHandlers = () => {
       await ScreenOrientation.unlockAsync();
       respond({ success: true });
     } catch (error) {
-      respond({ success: false, error: 'Failed to unlock orientation' });
+      throw toBridgeError(error, 'Failed to unlock orientation');
     }
   });
 
@@ -2,14 +2,18 @@
  * 앱 고정(Screen Pinning) 관련 핸들러 - Android 전용
  */
 
-import { registerHandler, sendToWeb } from '@/lib/bridge';
+import { registerHandler, sendToWeb, type HandlerOptions } from '@/lib/bridge';
 import { Platform } from 'react-native';
 import { registerScreenPinningHandlers as moduleRegister } from 'rnww-plugin-screen-pinning';
 
+// 플러그인 핸들러는 모두 Android 전용으로 표시 (기능 조회 결과에 반영)
+const registerAndroidHandler: typeof registerHandler = (action, handler, options?: HandlerOptions) =>
+  registerHandler(action, handler, { platforms: ['android'], ...options });
+
 export const registerScreenPinningHandlers = () => {
   
   moduleRegister({
-    bridge: {registerHandler, sendToWeb},
+    bridge: { registerHandler: registerAndroidHandler, sendToWeb },
     platform: { OS: Platform.OS }
   });
 
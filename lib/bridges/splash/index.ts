@@ -6,9 +6,10 @@ import { registerHandler } from '@/lib/bridge';
 
 export const registerSplashHandlers = () => {
   // 스플래시 숨기기
-  registerHandler('hideSplash', async () => {
+  registerHandler('hideSplash', async (_payload, respond) => {
     const { hideSplashScreen } = await import('@/app/_layout');
     hideSplashScreen();
+    respond({ success: true });
   });
 
   console.log('[Bridge] Splash handlers registered');
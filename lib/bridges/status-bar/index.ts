@@ -3,6 +3,7 @@
  */
 
 import { registerHandler } from '@/lib/bridge';
+import { toBridgeError } from '@/lib/bridge-error';
 
 // 저장된 상태바 상태
 let savedStatusBarState: { 
@@ -14,16 +15,12 @@ let savedStatusBarState: {
 export const registerStatusBarHandlers = () => {
   // 상태바 상태 조회
   registerHandler('getStatusBar', async (_payload, respond) => {
-    try {
-      // React Native StatusBar는 상태 조회 API가 없어서 저장된 값 반환
-      respond({
-        success: true,
-        saved: savedStatusBarState,
-        note: 'StatusBar API does not provide current state query. Returns last saved state.',
-      });
-    } catch (error) {
-      respond({ success: false, error: 'Failed to get status bar state' });
-    }
+    // React Native StatusBar는 상태 조회 API가 없어서 저장된 값 반환
+    respond({
+      success: true,
+      saved: savedStatusBarState,
+      note: 'StatusBar API does not provide current state query. Returns last saved state.',
+    });
   });
 
   // 상태바 설정
@@ -58,8 +55,15 @@ export const registerStatusBarHandlers = () => {
       
       respond({ success: true, hidden, style, color });
     } catch (error) {
-      respond({ success: false, error: error instanceof Error ? error.message : 'Failed to set status bar' });
+      throw toBridgeError(error, 'Failed to set status bar');
     }
+  }, {
+    schema: {
+      hidden: { type: 'boolean', description: '상태바 숨김 여부' },
+      style: { type: 'string', enum: ['default', 'light-content', 'dark-content'], description: '아이콘 스타일' },
+      color: { type: 'string', description: '배경색 (Android 전용)' },
+      animated: { type: 'boolean', description: '애니메이션 적용 (기본 true)' },
+    },
   });
 
   // 상태바 원래 상태로 복원
@@ -81,7 +85,7 @@ export const registerStatusBarHandlers = () => {
         respond({ success: true, restored: { hidden: false, style: 'default' } });
       }
     } catch (error) {
-      respond({ success: false, error: 'Failed to restore status bar' });
+      throw toBridgeError(error, 'Failed to restore status bar');
     }
   });
 
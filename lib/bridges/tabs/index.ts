@@ -0,0 +1,83 @@
+/**
+ * 하단 탭 관련 핸들러
+ * 탭 배지, 탭 전환, 탭바 표시 여부 변경 (APP_CONFIG.tabs.enabled일 때만 동작)
+ */
+
+import { registerHandler } from '@/lib/bridge';
+import { BridgeError } from '@/lib/bridge-error';
+import {
+  getTabItems,
+  getTabState,
+  isTabId,
+  isTabsEnabled,
+  selectTab,
+  setTabBadge,
+  setTabBarVisible,
+} from '@/lib/tabs';
+
+// 탭 모드가 아니거나 없는 탭이면 에러
+const assertTab = (tabId: string) => {
+  if (!isTabsEnabled()) {
+    throw new BridgeError('UNAVAILABLE', 'Tabs are not enabled');
+  }
+  if (!isTabId(tabId)) {
+    throw new BridgeError('INVALID_PAYLOAD', `Unknown tab: ${tabId}`, { tabId });
+  }
+};
+
+export const registerTabsHandlers = () => {
+  // 탭 목록과 상태 조회
+  registerHandler('getTabs', (_payload, respond) => {
+    const { activeTabId, badges, barVisible } = getTabState();
+    respond({
+      enabled: isTabsEnabled(),
+      activeTabId,
+      barVisible,
+      tabs: getTabItems().map(({ id, label }) => ({ id, label, badge: badges[id] ?? null })),
+    });
+  });
+
+  // 탭 배지 설정 (tabId 생략 시 요청한 WebView의 탭, badge 생략/0/빈 문자열이면 제거)
+  registerHandler<{ tabId?: string; badge?: string | number }>('setTabBadge', ({ tabId, badge }, respond, { bridgeId }) => {
+    const target = tabId ?? bridgeId;
+    assertTab(target);
+    if (badge !== undefined && typeof badge !== 'string' && typeof badge !== 'number') {
+      throw new BridgeError('INVALID_PAYLOAD', '"badge" must be a string or number');
+    }
+    setTabBadge(target, badge ?? null);
+    respond({ success: true });
+  }, {
+    schema: {
+      tabId: { type: 'string', description: '탭 ID (기본: 요청한 WebView의 탭)' },
+      badge: { type: 'any', description: '배지 (문자열 또는 숫자, 생략 시 제거)' },
+    },
+  });
+
+  // 탭 전환
+  registerHandler<{ tabId: string }>('selectTab', ({ tabId }, respond) => {
+    assertTab(tabId);
+    if (!selectTab(tabId)) {
+      throw new BridgeError('UNAVAILABLE', 'Tab navigator is not ready');
+    }
+    respond({ success: true });
+  }, {
+    schema: {
+      tabId: { type: 'string', required: true, min: 1, description: '탭 ID' },
+    },
+  });
+
+  // 탭바 표시 / 숨김 (전체 화면 영상, 입력 화면 등)
+  registerHandler<{ visible: boolean }>('setTabBarVisible', ({ visible }, respond) => {
+    if (!isTabsEnabled()) {
+      throw new BridgeError('UNAVAILABLE', 'Tabs are not enabled');
+    }
+    setTabBarVisible(visible);
+    respond({ success: true });
+  }, {
+    schema: {
+      visible: { type: 'boolean', required: true, description: '표시 여부' },
+    },
+  });
+
+  console.log('[Bridge] Tabs handlers registered');
+};
@@ -2,11 +2,19 @@
  * UI 피드백 관련 핸들러 (Toast, Vibration)
  */
 
-import { registerHandler } from '@/lib/bridge';
+import { registerHandler, type HandlerOptions } from '@/lib/bridge';
+
+// 매니페스트 options
+interface UIHandlerOptions {
+  /** showToast / vibrate 호출 제한 (기본 1초에 5회) */
+  rateLimit?: HandlerOptions['rateLimit'];
+}
+
+export const registerUIHandlers = (options: Record<string, unknown> = {}) => {
+  const { rateLimit = { limit: 5, windowMs: 1000 } } = options as UIHandlerOptions;
 
-export const registerUIHandlers = () => {
   // 토스트 메시지 (Android: Toast, iOS: Alert)
-  registerHandler<{ message: string; duration?: 'short' | 'long' }>('showToast', async ({ message, duration = 'short' }) => {
+  registerHandler<{ message: string; duration?: 'short' | 'long' }>('showToast', async ({ message, duration = 'short' }, respond) => {
     const { ToastAndroid, Platform, Alert } = await import('react-native');
     if (Platform.OS === 'android') {
       ToastAndroid.show(message, duration === 'long' ? ToastAndroid.LONG : ToastAndroid.SHORT);
@@ -14,16 +22,29 @@ export const registerUIHandlers = () => {
       // iOS는 Toast가 없으므로 Alert 사용 (자동 닫힘 없음)
       Alert.alert('', message);
     }
+    respond({ success: true });
+  }, {
+    rateLimit,
+    schema: {
+      message: { type: 'string', required: true, description: '표시할 메시지' },
+      duration: { type: 'string', enum: ['short', 'long'], description: '표시 시간 (기본 short)' },
+    },
   });
 
   // 진동
-  registerHandler<{ pattern?: number[] }>('vibrate', async ({ pattern }) => {
+  registerHandler<{ pattern?: number[] }>('vibrate', async ({ pattern }, respond) => {
     const { Vibration } = await import('react-native');
     if (pattern) {
       Vibration.vibrate(pattern);
     } else {
       Vibration.vibrate();
     }
+    respond({ success: true });
+  }, {
+    rateLimit,
+    schema: {
+      pattern: { type: 'array', items: { type: 'number', min: 0 }, description: '진동 패턴 (ms)' },
+    },
   });
 
   console.log('[Bridge] UI handlers registered');
@@ -2,7 +2,10 @@
  * WebView 네비게이션 관련 핸들러
  */
 
-import { getWebViewInstance, registerHandler } from '@/lib/bridge';
+import { getBridge, registerHandler } from '@/lib/bridge';
+import { BridgeError } from '@/lib/bridge-error';
+import { setPullToRefreshOverride } from '@/lib/pull-to-refresh';
+import { getWebviewActions } from '@/stores';
 
 export const registerWebviewHandlers = () => {
   // 외부 URL 열기
@@ -13,23 +16,50 @@ export const registerWebviewHandlers = () => {
       await Linking.openURL(url);
       respond({ success: true });
     } else {
-      respond({ success: false, error: 'Cannot open URL' });
+      throw new BridgeError('UNAVAILABLE', 'Cannot open URL', { url });
     }
+  }, {
+    schema: {
+      url: { type: 'string', required: true, min: 1, description: '열 URL' },
+    },
   });
 
-  // 뒤로가기
-  registerHandler('goBack', () => {
-    getWebViewInstance()?.goBack();
+  // 뒤로가기 (메시지를 보낸 WebView 기준)
+  registerHandler('goBack', (_payload, respond, { bridgeId }) => {
+    getBridge(bridgeId)?.getWebView()?.goBack();
+    respond({ success: true });
   });
 
   // 앞으로가기
-  registerHandler('goForward', () => {
-    getWebViewInstance()?.goForward();
+  registerHandler('goForward', (_payload, respond, { bridgeId }) => {
+    getBridge(bridgeId)?.getWebView()?.goForward();
+    respond({ success: true });
   });
 
-  // 새로고침
-  registerHandler('reload', () => {
-    getWebViewInstance()?.reload();
+  // 새로고침 (요청한 WebView 기준, 에러 화면이면 재시도)
+  registerHandler('reload', (_payload, respond, { bridgeId }) => {
+    getWebviewActions().reload(bridgeId);
+    respond({ success: true });
+  });
+
+  // URL로 이동 (요청한 WebView 기준, urlRules 적용)
+  registerHandler<{ url: string }>('navigate', ({ url }, respond, { bridgeId }) => {
+    getWebviewActions().navigate(url, bridgeId);
+    respond({ success: true });
+  }, {
+    schema: {
+      url: { type: 'string', required: true, min: 1, description: '이동할 URL' },
+    },
+  });
+
+  // 당겨서 새로고침 켜기/끄기 (현재 페이지에서만 유지, enabled 생략 시 URL 패턴 설정으로 복귀)
+  registerHandler<{ enabled?: boolean }>('setPullToRefresh', ({ enabled }, respond, { bridgeId }) => {
+    setPullToRefreshOverride(bridgeId, enabled ?? null);
+    respond({ success: true });
+  }, {
+    schema: {
+      enabled: { type: 'boolean', description: '사용 여부 (생략 시 앱 설정 기준)' },
+    },
   });
 
   console.log('[Bridge] WebView handlers registered');
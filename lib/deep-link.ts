@@ -0,0 +1,165 @@
+/**
+ * 딥링크 처리
+ * 커스텀 스킴 / https 앱 링크를 경로 변환 규칙에 따라 WebView URL로 바꿔 전달
+ * 첫 페이지 로드 전에 들어온 링크는 WebView가 준비될 때까지 보관
+ */
+
+import { APP_CONFIG } from '@/constants/app-config';
+import { isFeatureEnabled } from './feature-flags';
+import { parseUrl } from './url-pattern';
+
+// 경로 변환 규칙 (:name 은 경로 한 단계, * 는 나머지 전체)
+export interface DeepLinkRewrite {
+  /** 받은 링크 경로 패턴 (예: '/product/:id') */
+  from: string;
+  /** WebView 경로 (예: '/shop/products/:id') */
+  to: string;
+}
+
+// 전달 방식
+// event: deepLink 이벤트만 전달 (SPA 라우터가 새로고침 없이 이동) / load: WebView에서 URL 로드 후 이벤트 전달
+export type DeepLinkDelivery = 'event' | 'load';
+
+// WebView로 전달하는 딥링크
+export interface DeepLink {
+  /** WebView에서 열 URL */
+  url: string;
+  /** 변환된 경로 (쿼리, 해시 포함) */
+  path: string;
+  /** 앱이 받은 원본 링크 */
+  originalUrl: string;
+  /** 앱 시작 링크(콜드 스타트) 여부 */
+  initial: boolean;
+}
+
+export type DeepLinkHandler = (link: DeepLink) => void;
+
+// WebView 준비 전에 받은 링크
+const pendingLinks: DeepLink[] = [];
+let deepLinkHandler: DeepLinkHandler | null = null;
+
+// 경로 패턴 → 정규식 (파라미터 이름 목록 포함)
+const compilePathPattern = (pattern: string) => {
+  const names: string[] = [];
+  const source = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_match, name: string) => {
+      names.push(name);
+      return '([^/]+)';
+    })
+    .replace(/\*/g, () => {
+      names.push('*');
+      return '(.*)';
+    });
+  return { regex: new RegExp(`^${source}$`), names };
+};
+
+/**
+ * 경로 변환 (위에서부터 처음 일치한 규칙 적용, 없으면 그대로)
+ */
+export const rewriteDeepLinkPath = (path: string): string => {
+  for (const rule of APP_CONFIG.deepLink.rewrites) {
+    const { regex, names } = compilePathPattern(rule.from);
+    const match = path.match(regex);
+    if (!match) continue;
+
+    const params: Record<string, string> = {};
+    names.forEach((name, index) => {
+      params[name] = match[index + 1];
+    });
+    return rule.to
+      .replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (token, name: string) => params[name] ?? token)
+      .replace(/\*/g, () => params['*'] ?? '');
+  }
+  return path;
+};
+
+// baseUrl의 origin (scheme://host[:port])
+const getBaseOrigin = () => {
+  const base = parseUrl(APP_CONFIG.webview.baseUrl);
+  return base ? `${base.scheme}://${base.host}${base.port ? `:${base.port}` : ''}` : '';
+};
+
+/**
+ * 받은 링크를 WebView URL로 변환 (처리하지 않는 링크면 null)
+ * - 커스텀 스킴 (app.json scheme): webappsample://product/1 → /product/1
+ * - https 앱 링크: deepLink.hosts에 있는 호스트만 처리
+ */
+export const resolveDeepLink = (url: string, initial = false): DeepLink | null => {
+  const hashIndex = url.indexOf('#');
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = withoutHash.indexOf('?');
+  const query = queryIndex === -1 ? '' : withoutHash.slice(queryIndex);
+
+  let path: string;
+  if (url.startsWith('/')) {
+    path = queryIndex === -1 ? withoutHash : withoutHash.slice(0, queryIndex);
+    // 링크 없이 앱을 연 경우
+    if (path === '/' && !query && !hash) return null;
+  } else {
+    const parsed = parseUrl(url);
+    if (!parsed) return null;
+
+    if (parsed.scheme === 'http' || parsed.scheme === 'https') {
+      if (!APP_CONFIG.deepLink.hosts.includes(parsed.host)) return null;
+      path = parsed.path;
+    } else if (APP_CONFIG.app.schemes.includes(parsed.scheme)) {
+      // 커스텀 스킴은 호스트 부분도 경로로 사용
+      path = `/${parsed.host}${parsed.path}`;
+    } else {
+      // 개발 서버(exp://) 등 앱 스킴이 아닌 링크
+      return null;
+    }
+  }
+
+  const rewritten = rewriteDeepLinkPath(path.replace(/\/{2,}/g, '/') || '/');
+  const fullPath = `${rewritten}${query}${hash}`;
+  return {
+    url: `${getBaseOrigin()}${fullPath}`,
+    path: fullPath,
+    originalUrl: url,
+    initial,
+  };
+};
+
+// 전달 (기능이 꺼져 있으면 버림)
+const deliver = (link: DeepLink) => {
+  if (!isFeatureEnabled('deepLinking')) {
+    console.log('[DeepLink] Ignored (deepLinking disabled):', link.originalUrl);
+    return;
+  }
+  console.log(`[DeepLink] Delivering: ${link.originalUrl} → ${link.url}`);
+  deepLinkHandler?.(link);
+};
+
+/**
+ * 앱으로 들어온 링크 처리 (app/+native-intent.tsx에서 호출)
+ * WebView가 준비되지 않았으면 보관 후 setDeepLinkHandler 시점에 전달
+ * @returns 딥링크로 처리했는지 여부
+ */
+export const receiveDeepLink = (url: string, initial = false): boolean => {
+  const link = resolveDeepLink(url, initial);
+  if (!link) {
+    console.log('[DeepLink] Unsupported link ignored:', url);
+    return false;
+  }
+
+  if (deepLinkHandler) {
+    deliver(link);
+  } else {
+    pendingLinks.push(link);
+    console.log(`[DeepLink] Queued until WebView is ready: ${url}`);
+  }
+  return true;
+};
+
+/**
+ * 딥링크 처리 함수 등록 (WebView 첫 로드 후), 보관 중인 링크를 순서대로 전달
+ * null이면 해제 (이후 링크는 다시 보관)
+ */
+export const setDeepLinkHandler = (handler: DeepLinkHandler | null) => {
+  deepLinkHandler = handler;
+  if (!handler) return;
+  pendingLinks.splice(0, pendingLinks.length).forEach(deliver);
+};
@@ -0,0 +1,178 @@
+/**
+ * 기능 플래그
+ * APP_CONFIG.features 기본값 위에 원격 설정 / 로컬 JSON 파일 값을 덮어써서 사용
+ * 불러오기에 실패하면 컴파일된 기본값 유지
+ */
+
+import { File, Paths } from 'expo-file-system';
+
+import { APP_CONFIG, type FeatureFlags } from '@/constants/app-config';
+
+export type FeatureFlagName = keyof FeatureFlags;
+export type FeatureFlagValues = Record<FeatureFlagName, boolean>;
+
+// 현재 값의 출처
+// default: 기본값 / local: 로컬 JSON 파일 / remote: 원격 설정 / runtime: setFeatureFlags 호출
+export type FeatureFlagSource = 'default' | 'local' | 'remote' | 'runtime';
+
+// 변경 리스너 (변경된 플래그 이름 목록 포함)
+export type FeatureFlagListener = (
+  flags: Readonly<FeatureFlagValues>,
+  changed: FeatureFlagName[],
+  source: FeatureFlagSource
+) => void;
+
+const defaultFlags: FeatureFlagValues = { ...APP_CONFIG.features };
+
+// 현재 값 (변경 시 새 객체로 교체 → 구독 스냅샷으로 그대로 사용)
+let currentFlags: Readonly<FeatureFlagValues> = defaultFlags;
+let currentSource: FeatureFlagSource = 'default';
+
+const listeners: Set<FeatureFlagListener> = new Set();
+
+const isFeatureFlagName = (name: string): name is FeatureFlagName =>
+  Object.prototype.hasOwnProperty.call(defaultFlags, name);
+
+/**
+ * 덮어쓸 값 정리 (알 수 없는 키, boolean이 아닌 값 무시)
+ * 원격 응답이 { features: { ... } } 형태여도 허용
+ */
+const sanitizeOverrides = (value: unknown): Partial<FeatureFlagValues> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const source = value as Record<string, unknown>;
+  const flags = source.features && typeof source.features === 'object' ? source.features as Record<string, unknown> : source;
+
+  const result: Partial<FeatureFlagValues> = {};
+  Object.entries(flags).forEach(([name, enabled]) => {
+    if (!isFeatureFlagName(name)) {
+      console.warn(`[FeatureFlags] Unknown flag ignored: ${name}`);
+      return;
+    }
+    if (typeof enabled !== 'boolean') {
+      console.warn(`[FeatureFlags] Non-boolean value ignored: ${name}`);
+      return;
+    }
+    result[name] = enabled;
+  });
+  return result;
+};
+
+/**
+ * 현재 기능 플래그 조회 (값이 바뀌기 전까지 같은 객체 반환)
+ */
+export const getFeatureFlags = (): Readonly<FeatureFlagValues> => currentFlags;
+
+/**
+ * 현재 값의 출처
+ */
+export const getFeatureFlagSource = () => currentSource;
+
+/**
+ * 기능 사용 여부 (알 수 없는 이름이면 false)
+ */
+export const isFeatureEnabled = (name: string): boolean =>
+  isFeatureFlagName(name) && currentFlags[name];
+
+/**
+ * 변경 리스너 등록
+ * @returns 등록 해제 함수
+ */
+export const subscribeFeatureFlags = (listener: FeatureFlagListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// 새 값 적용 후 변경된 플래그가 있으면 리스너 호출
+const applyFlags = (next: FeatureFlagValues, source: FeatureFlagSource) => {
+  const changed = (Object.keys(next) as FeatureFlagName[]).filter(name => next[name] !== currentFlags[name]);
+  currentSource = source;
+  if (changed.length === 0) return changed;
+
+  currentFlags = next;
+  console.log(`[FeatureFlags] Changed by ${source}:`, changed.map(name => `${name}=${next[name]}`).join(', '));
+  listeners.forEach(listener => {
+    try {
+      listener(currentFlags, changed, source);
+    } catch (error) {
+      console.error('[FeatureFlags] Listener error:', error);
+    }
+  });
+  return changed;
+};
+
+/**
+ * 런타임에 기능 플래그 덮어쓰기
+ * @returns 변경된 플래그 이름 목록
+ */
+export const setFeatureFlags = (overrides: Partial<FeatureFlagValues>, source: FeatureFlagSource = 'runtime') =>
+  applyFlags({ ...currentFlags, ...sanitizeOverrides(overrides) }, source);
+
+/**
+ * 컴파일된 기본값으로 되돌리기
+ */
+export const resetFeatureFlags = () => applyFlags({ ...defaultFlags }, 'default');
+
+// 로컬 JSON 파일 (앱 문서 디렉토리)
+const readLocalOverrides = async () => {
+  const { localFile } = APP_CONFIG.featureFlags;
+  if (!localFile) return null;
+
+  const file = new File(Paths.document, localFile);
+  if (!file.exists) return null;
+  return sanitizeOverrides(JSON.parse(await file.text()));
+};
+
+// 원격 설정 (타임아웃 시 중단)
+const fetchRemoteOverrides = async () => {
+  const { remoteUrl, timeout } = APP_CONFIG.featureFlags;
+  if (!remoteUrl) return null;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    const response = await fetch(remoteUrl, {
+      headers: { Accept: 'application/json' },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return sanitizeOverrides(await response.json());
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * 원격 설정과 로컬 JSON 파일에서 기능 플래그 불러오기
+ * 우선순위: 로컬 파일 > 원격 설정 > 기본값 (각각 실패하면 건너뜀)
+ */
+export const loadFeatureFlags = async () => {
+  let next: FeatureFlagValues = { ...defaultFlags };
+  let source: FeatureFlagSource = 'default';
+
+  try {
+    const remote = await fetchRemoteOverrides();
+    if (remote) {
+      next = { ...next, ...remote };
+      source = 'remote';
+    }
+  } catch (error) {
+    console.warn('[FeatureFlags] Remote config unavailable, using defaults:', error);
+  }
+
+  try {
+    const local = await readLocalOverrides();
+    if (local) {
+      next = { ...next, ...local };
+      source = 'local';
+    }
+  } catch (error) {
+    console.warn('[FeatureFlags] Invalid local flag file ignored:', error);
+  }
+
+  applyFlags(next, source);
+  return currentFlags;
+};
@@ -0,0 +1,87 @@
+/**
+ * 네이티브 헤더 상태
+ * URL 규칙(APP_CONFIG.header.rules)으로 표시 여부를 정하고, 웹이 브릿지(setHeader)로 WebView별로 덮어쓸 수 있음
+ * 웹에서 지정한 값은 페이지 이동 시 초기화
+ */
+
+import { APP_CONFIG } from '@/constants/app-config';
+import { matchUrlRule, type UrlMatcher } from './url-pattern';
+
+// 헤더 오른쪽 버튼 (누르면 웹에 headerButtonPressed 이벤트 전달)
+export interface HeaderButton {
+  /** 버튼 ID (이벤트로 전달) */
+  id: string;
+  /** 아이콘 (Ionicons 이름, 없으면 label 표시) */
+  icon?: string;
+  /** 문구 */
+  label?: string;
+}
+
+// URL별 헤더 규칙
+export interface HeaderRule extends UrlMatcher {
+  /** 헤더 표시 여부 */
+  visible: boolean;
+  /** 고정 제목 (미지정 시 document.title) */
+  title?: string;
+}
+
+// 웹에서 지정한 헤더 설정 (지정한 항목만 덮어씀)
+export interface HeaderOptions {
+  visible?: boolean;
+  title?: string;
+  showBackButton?: boolean;
+  showCloseButton?: boolean;
+  rightButtons?: readonly HeaderButton[];
+}
+
+type HeaderListener = () => void;
+
+// 브릿지 ID → 웹에서 지정한 헤더 설정
+const overrides: Map<string, HeaderOptions> = new Map();
+const listeners: Set<HeaderListener> = new Set();
+
+const notify = () => {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('[Header] Listener error:', error);
+    }
+  });
+};
+
+/**
+ * URL 규칙 기준 헤더 설정 (위에서부터 처음 일치한 규칙, 없으면 기본값)
+ */
+export const resolveHeaderRule = (url: string): { visible: boolean; title?: string } => {
+  const { rules, visible } = APP_CONFIG.header;
+  return rules.find(rule => matchUrlRule(url, rule)) ?? { visible };
+};
+
+/**
+ * 웹에서 지정한 헤더 설정 (지정하지 않았으면 undefined)
+ */
+export const getHeaderOverride = (bridgeId: string): HeaderOptions | undefined => overrides.get(bridgeId);
+
+/**
+ * 헤더 설정 변경 (기존 값과 병합, null이면 URL 규칙 기준으로 되돌림)
+ */
+export const setHeaderOverride = (bridgeId: string, options: HeaderOptions | null) => {
+  if (options === null) {
+    if (!overrides.delete(bridgeId)) return;
+  } else {
+    overrides.set(bridgeId, { ...overrides.get(bridgeId), ...options });
+  }
+  notify();
+};
+
+/**
+ * 변경 리스너 등록
+ * @returns 등록 해제 함수
+ */
+export const subscribeHeader = (listener: HeaderListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
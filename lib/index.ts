@@ -3,6 +3,12 @@
  */
 
 export * from './bridge';
-export { BRIDGE_CLIENT_SCRIPT } from './bridge-client';
-export { registerBuiltInHandlers } from './bridges';
+export { createWebFile, releaseWebFile, type WebFileRef } from './bridge-binary';
+export * from './bridge-error';
+export * from './bridge-policy';
+export * from './bridge-schema';
+export * from './bridge-stats';
+export * from './feature-flags';
+export { DEFAULT_BRIDGE_ID, getBridgeClientScript } from './bridge-client';
+export { getBridgeModuleManifest, registerBuiltInHandlers, type BridgeModuleEntry } from './bridges';
 
@@ -0,0 +1,109 @@
+/**
+ * 팝업 창 처리
+ * window.open / target="_blank"로 열린 URL의 열기 방식 결정과
+ * 모달 WebView ↔ 부모 페이지 간 window.opener.postMessage / window.close 연결 스크립트
+ */
+
+import { APP_CONFIG } from '@/constants/app-config';
+import { matchUrlPattern } from './url-pattern';
+
+// 팝업 열기 방식
+// modal: 앱 내 모달 WebView / inAppBrowser: 앱 내 브라우저 (expo-web-browser) / external: 외부 브라우저
+export type PopupTarget = 'modal' | 'inAppBrowser' | 'external';
+
+// URL 패턴별 열기 규칙
+export interface PopupRule {
+  /** 팝업 URL 패턴 (allowedUrlPatterns와 동일한 와일드카드 문법) */
+  pattern: string;
+  /** 열기 방식 */
+  target: PopupTarget;
+}
+
+// 팝업 → 네이티브 메시지 타입
+export const POPUP_OPENER_MESSAGE = 'POPUP_OPENER_MESSAGE';
+export const POPUP_CLOSE = 'POPUP_CLOSE';
+
+// 부모 페이지 → 네이티브 메시지 타입 (window.open 반환 객체에서 사용)
+export const POPUP_PARENT_MESSAGE = 'POPUP_PARENT_MESSAGE';
+export const POPUP_CLOSE_REQUEST = 'POPUP_CLOSE_REQUEST';
+
+/**
+ * 팝업 URL의 열기 방식 (위에서부터 처음 일치한 규칙, 없으면 defaultTarget)
+ */
+export const getPopupTarget = (url: string): PopupTarget => {
+  const { rules, defaultTarget } = APP_CONFIG.webview.popup;
+  return rules.find(rule => matchUrlPattern(url, rule.pattern))?.target ?? defaultTarget;
+};
+
+/**
+ * URL의 origin (scheme://host[:port], 추출할 수 없으면 null)
+ */
+export const getUrlOrigin = (url: string | undefined): string | null => {
+  const match = url?.match(/^([a-z][a-z0-9+.-]*:\/\/[^/?#]+)/i);
+  return match ? match[1].toLowerCase() : null;
+};
+
+/**
+ * postMessage의 targetOrigin이 받는 페이지와 일치하는지 확인 ('*'는 항상 허용)
+ */
+export const isTargetOriginAllowed = (targetOrigin: string, receiverUrl: string | undefined) => {
+  if (targetOrigin === '*') return true;
+  const origin = getUrlOrigin(receiverUrl);
+  return origin !== null && origin === getUrlOrigin(targetOrigin);
+};
+
+/**
+ * 페이지에 message 이벤트 발생 (window.postMessage 수신과 동일한 형태)
+ * @param message 전달할 데이터 (JSON 직렬화 가능해야 함)
+ * @param origin 보낸 페이지의 origin
+ */
+export const createMessageEventScript = (message: unknown, origin: string | null) =>
+  `(function(){window.dispatchEvent(new MessageEvent('message',{data:${JSON.stringify(message ?? null)},origin:${JSON.stringify(origin ?? 'null')}}))})();true;`;
+
+/**
+ * 팝업 닫힘 알림 스크립트 (부모 페이지의 window.open 반환 객체 closed = true)
+ */
+export const POPUP_CLOSED_SCRIPT = 'window.__onPopupClosed && window.__onPopupClosed();true;';
+
+/**
+ * 모달 WebView에 주입하는 스크립트 (페이지 로드 전)
+ * window.opener.postMessage → 부모 페이지 message 이벤트, window.close() → 모달 닫기
+ */
+export const POPUP_WINDOW_SCRIPT = `(function(){
+if (window.__popupWindowInstalled) return;
+window.__popupWindowInstalled = true;
+function post(type, data){ window.ReactNativeWebView.postMessage(JSON.stringify({ type: type, data: data })); }
+var opener = {
+  closed: false,
+  postMessage: function(message, targetOrigin){ post('${POPUP_OPENER_MESSAGE}', { message: message, targetOrigin: targetOrigin || '*' }); },
+  focus: function(){}
+};
+try { Object.defineProperty(window, 'opener', { configurable: true, get: function(){ return opener; } }); } catch (e) { window.opener = opener; }
+window.close = function(){ post('${POPUP_CLOSE}'); };
+})();true;`;
+
+/**
+ * 부모 WebView에 주입하는 스크립트 (페이지 로드 전)
+ * 네이티브가 창을 처리해 window.open이 null을 반환해도 closed / close() / postMessage()를 쓸 수 있는 객체 반환
+ */
+export const POPUP_PARENT_SCRIPT = `(function(){
+if (window.__popupParentInstalled) return;
+window.__popupParentInstalled = true;
+var nativeOpen = window.open;
+var current = null;
+function post(type, data){ window.ReactNativeWebView.postMessage(JSON.stringify({ type: type, data: data })); }
+window.open = function(){
+  var result = nativeOpen.apply(window, arguments);
+  if (result) return result;
+  if (current) current.closed = true;
+  current = {
+    closed: false,
+    close: function(){ post('${POPUP_CLOSE_REQUEST}'); },
+    postMessage: function(message, targetOrigin){ post('${POPUP_PARENT_MESSAGE}', { message: message, targetOrigin: targetOrigin || '*' }); },
+    focus: function(){},
+    blur: function(){}
+  };
+  return current;
+};
+window.__onPopupClosed = function(){ if (current) { current.closed = true; current = null; } };
+})();true;`;
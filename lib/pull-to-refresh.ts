@@ -0,0 +1,64 @@
+/**
+ * 당겨서 새로고침 사용 여부
+ * URL 패턴(APP_CONFIG.webview.pullToRefresh)으로 판단하고, 웹이 브릿지로 WebView별로 켜고 끌 수 있음
+ * (지도, 캐러셀 등 세로 드래그가 필요한 영역에서 끄기)
+ */
+
+import { APP_CONFIG } from '@/constants/app-config';
+import { matchAnyUrlPattern } from './url-pattern';
+
+type PullToRefreshListener = () => void;
+
+// 브릿지 ID → 웹에서 지정한 사용 여부 (페이지 이동 시 초기화)
+const overrides: Map<string, boolean> = new Map();
+const listeners: Set<PullToRefreshListener> = new Set();
+
+const notify = () => {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('[PullToRefresh] Listener error:', error);
+    }
+  });
+};
+
+/**
+ * URL 패턴 기준 사용 여부 (excludePatterns 우선, includePatterns가 비어 있으면 전체 허용)
+ */
+export const isPullToRefreshAllowed = (url: string): boolean => {
+  const { enabled, includePatterns, excludePatterns } = APP_CONFIG.webview.pullToRefresh;
+  if (!enabled) return false;
+  if (matchAnyUrlPattern(url, excludePatterns)) return false;
+  return includePatterns.length === 0 || matchAnyUrlPattern(url, includePatterns);
+};
+
+/**
+ * 웹에서 지정한 사용 여부 (지정하지 않았으면 undefined)
+ */
+export const getPullToRefreshOverride = (bridgeId: string): boolean | undefined => overrides.get(bridgeId);
+
+/**
+ * WebView별 사용 여부 지정 (null이면 URL 패턴 기준으로 되돌림)
+ */
+export const setPullToRefreshOverride = (bridgeId: string, enabled: boolean | null) => {
+  if (enabled === null) {
+    if (!overrides.delete(bridgeId)) return;
+  } else {
+    if (overrides.get(bridgeId) === enabled) return;
+    overrides.set(bridgeId, enabled);
+  }
+  console.log(`[PullToRefresh] ${bridgeId}: ${enabled === null ? 'reset' : enabled}`);
+  notify();
+};
+
+/**
+ * 변경 리스너 등록
+ * @returns 등록 해제 함수
+ */
+export const subscribePullToRefresh = (listener: PullToRefreshListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,141 @@
+/**
+ * 하단 탭 상태
+ * 탭 목록은 APP_CONFIG.tabs, 배지 / 탭바 표시 / 선택된 탭은 런타임 상태 (브릿지에서 변경)
+ */
+
+import type { Ionicons } from '@expo/vector-icons';
+import type { ComponentProps } from 'react';
+
+import { APP_CONFIG } from '@/constants/app-config';
+import { parseUrl } from './url-pattern';
+
+type IconName = ComponentProps<typeof Ionicons>['name'];
+
+// 탭 설정
+export interface TabItem {
+  /** 탭 ID (WebView / 브릿지 ID로 사용, 'main' 탭에서 내장 핸들러 등록) */
+  id: string;
+  /** 탭 이름 */
+  label: string;
+  /** 아이콘 (Ionicons 이름) */
+  icon: IconName;
+  /** 선택 시 아이콘 (미지정 시 icon) */
+  activeIcon?: IconName;
+  /** 시작 URL ('/'로 시작하면 baseUrl 기준 경로) */
+  url: string;
+}
+
+// 탭 런타임 상태 (변경 시 새 객체로 교체 → 구독 스냅샷으로 그대로 사용)
+export interface TabState {
+  /** 선택된 탭 ID */
+  activeTabId: string;
+  /** 탭 ID → 배지 (없으면 표시 안 함) */
+  badges: Readonly<Partial<Record<string, string | number>>>;
+  /** 탭바 표시 여부 */
+  barVisible: boolean;
+}
+
+type TabListener = () => void;
+type TabSelectHandler = (tabId: string) => void;
+
+let state: Readonly<TabState> = {
+  activeTabId: APP_CONFIG.tabs.items[0]?.id ?? '',
+  badges: {},
+  barVisible: true,
+};
+
+const listeners: Set<TabListener> = new Set();
+let tabSelectHandler: TabSelectHandler | null = null;
+
+const update = (next: Partial<TabState>) => {
+  state = { ...state, ...next };
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('[Tabs] Listener error:', error);
+    }
+  });
+};
+
+/**
+ * 탭 모드 사용 여부 (탭이 하나 이상 있어야 함)
+ */
+export const isTabsEnabled = (): boolean => APP_CONFIG.tabs.enabled && APP_CONFIG.tabs.items.length > 0;
+
+/**
+ * 탭 설정 목록
+ */
+export const getTabItems = (): readonly TabItem[] => APP_CONFIG.tabs.items;
+
+/**
+ * 설정에 있는 탭 ID인지 확인
+ */
+export const isTabId = (tabId: string) => APP_CONFIG.tabs.items.some(tab => tab.id === tabId);
+
+/**
+ * 탭 시작 URL ('/'로 시작하면 baseUrl의 origin 기준)
+ */
+export const resolveTabUrl = (url: string) => {
+  if (!url.startsWith('/')) return url;
+  const base = parseUrl(APP_CONFIG.webview.baseUrl);
+  return base ? `${base.scheme}://${base.host}${base.port ? `:${base.port}` : ''}${url}` : url;
+};
+
+/**
+ * 현재 탭 상태 (값이 바뀌기 전까지 같은 객체 반환)
+ */
+export const getTabState = (): Readonly<TabState> => state;
+
+/**
+ * 변경 리스너 등록
+ * @returns 등록 해제 함수
+ */
+export const subscribeTabs = (listener: TabListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * 배지 설정 (null, 빈 문자열, 0이면 제거)
+ */
+export const setTabBadge = (tabId: string, badge: string | number | null) => {
+  const { [tabId]: _previous, ...rest } = state.badges;
+  const badges = badge === null || badge === '' || badge === 0 ? rest : { ...rest, [tabId]: badge };
+  update({ badges });
+};
+
+/**
+ * 탭바 표시 / 숨김
+ */
+export const setTabBarVisible = (visible: boolean) => {
+  if (state.barVisible === visible) return;
+  update({ barVisible: visible });
+};
+
+/**
+ * 선택된 탭 기록 (탭 화면 포커스 시 호출)
+ */
+export const setActiveTab = (tabId: string) => {
+  if (state.activeTabId === tabId) return;
+  update({ activeTabId: tabId });
+};
+
+/**
+ * 탭 전환 처리 함수 등록 (탭 네비게이터 마운트 시, null이면 해제)
+ */
+export const setTabSelectHandler = (handler: TabSelectHandler | null) => {
+  tabSelectHandler = handler;
+};
+
+/**
+ * 탭 전환
+ * @returns 전환 요청 여부 (탭 네비게이터가 없으면 false)
+ */
+export const selectTab = (tabId: string): boolean => {
+  if (!tabSelectHandler) return false;
+  tabSelectHandler(tabId);
+  return true;
+};
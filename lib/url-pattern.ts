@@ -0,0 +1,124 @@
+/**
+ * URL 패턴 매칭 유틸리티
+ * allowedUrlPatterns 등 설정에서 사용하는 와일드카드 패턴 처리와
+ * scheme / host / path 단위 URL 규칙 비교
+ */
+
+// scheme://[user@]host[:port]나머지 (사용자 정보는 마지막 '@'까지, '\'는 브라우저처럼 authority 끝으로 취급)
+const AUTHORITY_URL = /^([a-z][a-z0-9+.-]*):\/\/(?:[^/?#\\]*@)?(\[[^\]]*\]|[^:/?#\\]*)(?::([^/?#\\]*))?(.*)$/i;
+
+// 와일드카드 패턴 → 정규표현식 (* → 지정한 문자열)
+const toWildcardRegex = (pattern: string, wildcard: string, suffix = '') => new RegExp(
+  `^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, wildcard)}${suffix}`,
+  'i'
+);
+
+/**
+ * URL이 패턴과 일치하는지 확인
+ * - 와일드카드(*) 지원: https://*.example.com
+ * - 정확한 도메인 매칭: https://example.com
+ * - scheme://host 형태의 패턴은 URL을 분해해 스킴, 호스트, 포트를 각각 비교하고 나머지(경로 등)는 앞부분(prefix) 비교
+ *   (https://example.com ≠ https://example.com.evil.com, https://example.com:x@evil.com)
+ * - 포트를 지정하지 않은 패턴은 모든 포트와 일치
+ */
+export const matchUrlPattern = (url: string, pattern: string): boolean => {
+  const expected = pattern.match(AUTHORITY_URL);
+  if (!expected) {
+    // authority가 없는 패턴 (about:blank 등)은 앞부분 비교
+    return toWildcardRegex(pattern, '[^/?#]+').test(url);
+  }
+
+  const actual = url.match(AUTHORITY_URL);
+  if (!actual) return false;
+
+  const [, scheme, host, port, rest] = expected;
+  const [, urlScheme, urlHost, urlPort = '', urlRest] = actual;
+
+  if (scheme.toLowerCase() !== urlScheme.toLowerCase()) return false;
+  if (!toWildcardRegex(host, '[^/?#@]+', '$').test(urlHost)) return false;
+  if (port !== undefined && port !== '*' && port !== urlPort) return false;
+  return toWildcardRegex(rest, '[^/?#]+').test(urlRest);
+};
+
+/**
+ * URL이 패턴 목록 중 하나라도 일치하는지 확인
+ */
+export const matchAnyUrlPattern = (url: string, patterns: readonly string[]): boolean => {
+  return patterns.some(pattern => matchUrlPattern(url, pattern));
+};
+
+// URL 구성 요소
+export interface ParsedUrl {
+  /** 스킴 (소문자, ':' 제외) */
+  scheme: string;
+  /** 호스트 (소문자, 없으면 빈 문자열) */
+  host: string;
+  /** 포트 (없으면 null) */
+  port: number | null;
+  /** 경로 (tel:, mailto: 등은 스킴 뒤 전체) */
+  path: string;
+}
+
+/**
+ * URL 분해 (스킴이 없으면 null)
+ * 사용자 정보(user@)는 호스트에서 제외 (마지막 '@'까지, '\'는 authority 끝으로 취급)
+ */
+export const parseUrl = (url: string): ParsedUrl | null => {
+  const match = url.match(/^([a-z][a-z0-9+.-]*):(?:\/\/(?:[^/?#\\]*@)?(\[[^\]]*\]|[^:/?#\\]*)(?::(\d+))?)?([^?#]*)/i);
+  if (!match) return null;
+  return {
+    scheme: match[1].toLowerCase(),
+    host: (match[2] ?? '').toLowerCase(),
+    port: match[3] ? parseInt(match[3], 10) : null,
+    path: match[4] ?? '',
+  };
+};
+
+// URL 규칙 비교 조건 (지정하지 않은 항목은 모두 일치)
+export interface UrlMatcher {
+  /** 스킴 ('https', ['tel', 'sms']) */
+  scheme?: string | readonly string[];
+  /** 호스트 ('example.com' 정확히, '*.example.com' 하위 도메인, '*' 전체) */
+  host?: string | readonly string[];
+  /** 경로 ('/login' 정확히, '/admin/*' 하위 경로, '*'는 '/'를 포함한 모든 문자) */
+  path?: string | readonly string[];
+}
+
+const toList = (value: string | readonly string[]) => (typeof value === 'string' ? [value] : value);
+
+// 호스트 비교 ('*.example.com'은 example.com 자신은 제외하고 하위 도메인만)
+const matchHost = (host: string, pattern: string) => {
+  const normalized = pattern.toLowerCase();
+  if (normalized === '*') return host !== '';
+  if (normalized.startsWith('*.')) {
+    return host.endsWith(normalized.slice(1)) && host.length > normalized.length - 1;
+  }
+  return host === normalized;
+};
+
+// 경로 비교 (전체 일치, '*' 와일드카드)
+const matchPath = (path: string, pattern: string) => {
+  const regexPattern = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${regexPattern}$`).test(path || '/');
+};
+
+/**
+ * URL이 규칙 조건과 일치하는지 확인 (scheme / host / path 모두 일치해야 함)
+ */
+export const matchUrlRule = (url: string, matcher: UrlMatcher): boolean => {
+  const parsed = parseUrl(url);
+  if (!parsed) return false;
+
+  if (matcher.scheme && !toList(matcher.scheme).some(scheme => scheme.replace(/:$/, '').toLowerCase() === parsed.scheme)) {
+    return false;
+  }
+  if (matcher.host && !toList(matcher.host).some(pattern => matchHost(parsed.host, pattern))) {
+    return false;
+  }
+  if (matcher.path && !toList(matcher.path).some(pattern => matchPath(parsed.path, pattern))) {
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,175 @@
+/**
+ * URL 처리 정책
+ * WebView가 이동하려는 URL을 규칙 목록(APP_CONFIG.webview.urlRules)과 비교해
+ * WebView 로드 / 앱 내 브라우저 / 외부 앱 / 차단 / 웹 이벤트 중 하나로 처리
+ * tel:, mailto:, sms:, market:, intent: 는 기본 처리 제공
+ */
+
+import { Linking, Platform } from 'react-native';
+
+import { APP_CONFIG } from '@/constants/app-config';
+import { matchAnyUrlPattern, matchUrlRule, parseUrl, type UrlMatcher } from './url-pattern';
+
+// URL 처리 방식
+// inline: WebView에서 로드 / inAppBrowser: 앱 내 브라우저 (expo-web-browser) / external: 외부 앱(브라우저)
+// block: 차단 후 메시지 표시 / event: 로드하지 않고 웹에 브릿지 이벤트 전달
+export type UrlAction = 'inline' | 'inAppBrowser' | 'external' | 'block' | 'event';
+
+// URL 처리 규칙
+export interface UrlRule extends UrlMatcher {
+  /** 처리 방식 */
+  action: UrlAction;
+  /** block: 표시할 메시지 (미지정 시 blockedMessage) */
+  message?: string;
+  /** event: 웹에 보낼 이벤트명 (기본 'urlIntercepted') */
+  event?: string;
+}
+
+// 판정 결과
+export interface UrlDecision {
+  action: UrlAction;
+  /** 판정에 사용된 규칙 (기본 처리 시 null) */
+  rule: UrlRule | null;
+}
+
+// WebView 내부에서 항상 로드하는 스킴 (javascript:, about:, data: 등, 브릿지 프로토콜)
+const INLINE_SCHEMES = ['javascript', 'about', 'data', 'blob', 'app'];
+
+// 외부 앱으로 넘기는 기본 스킴
+const EXTERNAL_SCHEMES = ['tel', 'mailto', 'sms', 'market', 'intent'];
+
+// 현재 적용 중인 규칙 (앱 설정으로 초기화)
+let urlRules: readonly UrlRule[] = APP_CONFIG.webview.urlRules;
+
+/**
+ * URL 규칙 교체 (런타임 변경용)
+ */
+export const setUrlRules = (rules: readonly UrlRule[]) => {
+  urlRules = rules;
+  console.log(`[WebView] URL rules updated: ${rules.length} rule(s)`);
+};
+
+/**
+ * URL 처리 방식 판정
+ * 1. urlRules (위에서부터 처음 일치한 규칙)
+ * 2. 내부 스킴 → inline, tel:/mailto:/sms:/market:/intent: → external
+ * 3. allowedUrlPatterns와 일치(또는 비어 있음) → inline, 아니면 defaultUrlAction
+ */
+export const resolveUrlAction = (url: string): UrlDecision => {
+  const rule = urlRules.find(r => matchUrlRule(url, r));
+  if (rule) {
+    return { action: rule.action, rule };
+  }
+
+  const scheme = parseUrl(url)?.scheme ?? '';
+  if (INLINE_SCHEMES.includes(scheme)) {
+    return { action: 'inline', rule: null };
+  }
+  if (EXTERNAL_SCHEMES.includes(scheme)) {
+    return { action: 'external', rule: null };
+  }
+
+  const { allowedUrlPatterns, defaultUrlAction } = APP_CONFIG.webview;
+  const patterns = allowedUrlPatterns as readonly string[];
+  if (patterns.length === 0 || matchAnyUrlPattern(url, patterns)) {
+    return { action: 'inline', rule: null };
+  }
+  return { action: defaultUrlAction, rule: null };
+};
+
+// Android intent:// URL 구성 요소
+export interface IntentUrl {
+  /** 앱 스킴으로 변환한 URL (scheme 파라미터가 없으면 null) */
+  url: string | null;
+  /** 앱이 없을 때 이동할 URL (S.browser_fallback_url) */
+  fallbackUrl: string | null;
+  /** 대상 앱 패키지명 */
+  packageName: string | null;
+}
+
+/**
+ * intent:// URL 분해
+ * intent://host/path#Intent;scheme=myapp;package=com.example;S.browser_fallback_url=...;end
+ */
+export const parseIntentUrl = (url: string): IntentUrl | null => {
+  const match = url.match(/^intent:(\/\/[^#]*)?#Intent;(.*?);?end;?$/i);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  match[2].split(';').forEach(part => {
+    const index = part.indexOf('=');
+    if (index > 0) params[part.slice(0, index)] = part.slice(index + 1);
+  });
+
+  const decode = (value: string | undefined) => {
+    if (!value) return null;
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+
+  return {
+    url: params.scheme ? `${params.scheme}:${match[1] ?? ''}` : null,
+    fallbackUrl: decode(params['S.browser_fallback_url']),
+    packageName: params.package ?? null,
+  };
+};
+
+// market://details?id=... → Play 스토어 웹 주소
+const toPlayStoreWebUrl = (url: string) => {
+  const query = url.split('?')[1];
+  return query ? `https://play.google.com/store/apps/details?${query}` : 'https://play.google.com/store/apps';
+};
+
+// iOS 문자 앱은 본문 구분자로 '&'를 사용 (sms:010?body= → sms:010&body=)
+const normalizeSmsUrl = (url: string) =>
+  Platform.OS === 'ios' ? url.replace(/^(sms:[^?&]*)\?/i, '$1&') : url;
+
+/**
+ * 외부 앱으로 URL 열기 (tel:, mailto:, sms:, market:, intent: 기본 처리 포함)
+ * @returns WebView에서 대신 로드할 URL (intent의 fallback 등), 없으면 null
+ */
+export const openExternalUrl = async (url: string): Promise<string | null> => {
+  const scheme = parseUrl(url)?.scheme;
+
+  try {
+    if (scheme === 'intent') {
+      const intent = parseIntentUrl(url);
+      if (!intent) throw new Error(`Invalid intent URL: ${url}`);
+
+      if (intent.url) {
+        try {
+          await Linking.openURL(intent.url);
+          return null;
+        } catch {
+          // 앱이 설치되지 않음 → fallback
+        }
+      }
+      if (intent.fallbackUrl) {
+        return intent.fallbackUrl;
+      }
+      if (intent.packageName) {
+        await openExternalUrl(`market://details?id=${intent.packageName}`);
+        return null;
+      }
+      throw new Error(`No app to handle intent: ${url}`);
+    }
+
+    if (scheme === 'market') {
+      try {
+        await Linking.openURL(url);
+      } catch {
+        // Play 스토어가 없는 기기 (iOS 등) → 웹 스토어
+        await Linking.openURL(toPlayStoreWebUrl(url));
+      }
+      return null;
+    }
+
+    await Linking.openURL(scheme === 'sms' ? normalizeSmsUrl(url) : url);
+  } catch (err) {
+    console.error('[WebView] Failed to open URL:', url, err);
+  }
+  return null;
+};
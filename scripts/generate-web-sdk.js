@@ -0,0 +1,500 @@
+/**
+ * 웹용 타입 SDK 생성 스크립트
+ * lib/bridges/* 의 registerHandler 선언에서 페이로드/응답 타입을 읽어
+ * 웹 프로젝트에서 사용할 타입 선언(.d.ts)과 ESM 래퍼를 생성
+ *
+ * 사용법: npm run generate:web-sdk [-- --out <디렉토리>]
+ *
+ * - 페이로드: registerHandler<Payload, Response> 첫 번째 타입 인자 (없으면 schema 옵션, 둘 다 없으면 페이로드 없음)
+ * - 응답: 두 번째 타입 인자 (없으면 핸들러 안의 respond() 호출 인자 타입)
+ * - 설명: registerHandler 호출 바로 위 주석
+ * - 플러그인 매니페스트(constants/bridge-plugins.json)에서 사용 중지된 모듈은 제외하고 네임스페이스 적용
+ *   (기능 플래그로 등록되는 모듈은 포함하고 @feature로 표시)
+ * - 플러그인 패키지 내부에서 등록하는 핸들러는 소스가 없어 포함되지 않음
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const root = path.join(__dirname, '..');
+const bridgesDir = path.join(root, 'lib', 'bridges');
+const outArgIndex = process.argv.indexOf('--out');
+const outDir = path.resolve(root, outArgIndex !== -1 ? process.argv[outArgIndex + 1] : 'web-sdk');
+
+const PACKAGE_NAME = 'rn-webwrapper-bridge-sdk';
+const HEADER = '// 자동 생성 파일 - 직접 수정하지 마세요 (npm run generate:web-sdk)\n';
+
+// ========================================
+// 프로젝트 로드
+// ========================================
+
+const configPath = path.join(root, 'tsconfig.json');
+const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+const parsed = ts.parseJsonConfigFileContent(config, ts.sys, root);
+
+const manifest = require('../constants/bridge-plugins.json');
+
+const handlerFiles = manifest.modules
+  .filter(entry => entry.enabled !== false)
+  .map(entry => path.join(bridgesDir, entry.module, 'index.ts'))
+  .filter(file => fs.existsSync(file));
+
+const getManifestEntry = (file) =>
+  manifest.modules.find(m => m.module === path.basename(path.dirname(file))) || {};
+
+const program = ts.createProgram({
+  rootNames: [...handlerFiles, path.join(root, 'lib', 'bridge-error.ts'), path.join(root, 'lib', 'bridge-client.ts')],
+  options: { ...parsed.options, noEmit: true },
+});
+const checker = program.getTypeChecker();
+
+// ========================================
+// 타입 → 문자열 (import 없이 독립적으로 쓸 수 있도록 모두 펼침)
+// ========================================
+
+const MAX_DEPTH = 8;
+
+const indent = (level) => '  '.repeat(level);
+
+const isIdentifierName = (name) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+
+// 객체 키 (네임스페이스 액션처럼 식별자가 아니면 따옴표)
+const propertyKey = (name) => isIdentifierName(name) ? name : JSON.stringify(name);
+
+const serializeType = (type, node, level = 0, depth = 0) => {
+  if (depth > MAX_DEPTH) return 'unknown';
+
+  const { flags } = type;
+  if (flags & ts.TypeFlags.Any) return 'any';
+  if (flags & ts.TypeFlags.Unknown) return 'unknown';
+  if (flags & ts.TypeFlags.Void) return 'void';
+  if (flags & ts.TypeFlags.Undefined) return 'undefined';
+  if (flags & ts.TypeFlags.Null) return 'null';
+  if (flags & ts.TypeFlags.Never) return 'never';
+  if (flags & ts.TypeFlags.String) return 'string';
+  if (flags & ts.TypeFlags.Number) return 'number';
+  if (flags & ts.TypeFlags.Boolean) return 'boolean';
+  if (flags & ts.TypeFlags.BooleanLiteral) return checker.typeToString(type);
+  if (flags & ts.TypeFlags.StringLiteral) return JSON.stringify(type.value);
+  if (flags & ts.TypeFlags.NumberLiteral) return String(type.value);
+
+  if (type.isUnion()) {
+    let members = type.types;
+    const hasTrue = members.some(t => checker.typeToString(t) === 'true');
+    const hasFalse = members.some(t => checker.typeToString(t) === 'false');
+    const parts = [];
+    if (hasTrue && hasFalse) {
+      members = members.filter(t => !(t.flags & ts.TypeFlags.BooleanLiteral));
+      parts.push('boolean');
+    }
+    members.forEach(member => {
+      const text = serializeType(member, node, level, depth + 1);
+      if (!parts.includes(text)) parts.push(text);
+    });
+    return parts.join(' | ');
+  }
+
+  if (checker.isArrayType(type)) {
+    const [element] = checker.getTypeArguments(type);
+    const text = serializeType(element, node, level, depth + 1);
+    return /[|&\s]/.test(text) && !text.startsWith('{') ? `(${text})[]` : `${text}[]`;
+  }
+
+  if (checker.isTupleType(type)) {
+    return `[${checker.getTypeArguments(type).map(t => serializeType(t, node, level, depth + 1)).join(', ')}]`;
+  }
+
+  // 객체 교차 타입({ url } & Options)은 속성을 합친 객체로 출력
+  const isObjectIntersection = type.isIntersection() && type.types.every(t => t.flags & ts.TypeFlags.Object);
+
+  if (flags & ts.TypeFlags.Object || isObjectIntersection) {
+    if (type.getCallSignatures().length > 0) return 'unknown';
+
+    const lines = type.getProperties().map(prop => {
+      const optional = (prop.flags & ts.SymbolFlags.Optional) !== 0;
+      let propType = checker.getTypeOfSymbolAtLocation(prop, node);
+      if (optional) propType = checker.getNonNullableType(propType);
+      const name = propertyKey(prop.name);
+      return `${indent(level + 1)}${name}${optional ? '?' : ''}: ${serializeType(propType, node, level + 1, depth + 1)};`;
+    });
+
+    checker.getIndexInfosOfType(type).forEach(info => {
+      const keyType = serializeType(info.keyType, node, level + 1, depth + 1);
+      lines.push(`${indent(level + 1)}[key: ${keyType}]: ${serializeType(info.type, node, level + 1, depth + 1)};`);
+    });
+
+    if (lines.length === 0) return 'Record<string, never>';
+    return `{\n${lines.join('\n')}\n${indent(level)}}`;
+  }
+
+  return checker.typeToString(type, node, ts.TypeFormatFlags.NoTruncation);
+};
+
+// ========================================
+// schema 옵션 → 타입 (타입 인자가 없는 핸들러용)
+// ========================================
+
+const SCHEMA_TYPES = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  object: 'Record<string, unknown>',
+  array: 'unknown[]',
+  any: 'unknown',
+};
+
+const getProperty = (objectLiteral, name) => {
+  if (!objectLiteral || !ts.isObjectLiteralExpression(objectLiteral)) return undefined;
+  const prop = objectLiteral.properties.find(p =>
+    ts.isPropertyAssignment(p) && p.name && p.name.getText() === name
+  );
+  return prop ? prop.initializer : undefined;
+};
+
+const literalValue = (node) => {
+  if (!node) return undefined;
+  if (ts.isStringLiteral(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  return undefined;
+};
+
+const schemaFieldToType = (field, level) => {
+  const enumNode = getProperty(field, 'enum');
+  if (enumNode && ts.isArrayLiteralExpression(enumNode)) {
+    return enumNode.elements.map(e => JSON.stringify(literalValue(e))).join(' | ');
+  }
+  const typeName = literalValue(getProperty(field, 'type'));
+  if (typeName === 'array') {
+    const items = getProperty(field, 'items');
+    const itemType = items ? schemaFieldToType(items, level) : 'unknown';
+    return /[|\s]/.test(itemType) ? `(${itemType})[]` : `${itemType}[]`;
+  }
+  if (typeName === 'object') {
+    const properties = getProperty(field, 'properties');
+    if (properties) return schemaToType(properties, level);
+  }
+  return SCHEMA_TYPES[typeName] || 'unknown';
+};
+
+const schemaToType = (schema, level = 0) => {
+  const lines = schema.properties.filter(ts.isPropertyAssignment).map(prop => {
+    const field = prop.initializer;
+    const required = literalValue(getProperty(field, 'required')) === true;
+    const description = literalValue(getProperty(field, 'description'));
+    const doc = description ? `${indent(level + 1)}/** ${description} */\n` : '';
+    return `${doc}${indent(level + 1)}${prop.name.getText()}${required ? '' : '?'}: ${schemaFieldToType(field, level + 1)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent(level)}}`;
+};
+
+// ========================================
+// 핸들러 수집
+// ========================================
+
+// registerHandler 호출 위 주석 추출
+const getDescription = (call, sourceFile) => {
+  let statement = call;
+  while (statement.parent && !ts.isExpressionStatement(statement)) statement = statement.parent;
+  const ranges = ts.getLeadingCommentRanges(sourceFile.text, statement.pos) || [];
+  return ranges
+    .map(range => sourceFile.text.slice(range.pos, range.end))
+    .map(text => text.replace(/^\/\/\s?|^\/\*+\s?|\s?\*+\/$/g, '').trim())
+    .filter(Boolean)
+    .join(' ');
+};
+
+// 핸들러 안의 respond(...) 호출 인자 타입 (BridgeError 제외)
+const inferResponseType = (handler) => {
+  const respondParam = handler.parameters[1];
+  if (!respondParam || !ts.isIdentifier(respondParam.name)) return null;
+  const respondName = respondParam.name.text;
+  const types = [];
+
+  const visit = (node) => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) &&
+      node.expression.text === respondName && node.arguments.length > 0) {
+      const type = checker.getTypeAtLocation(node.arguments[0]);
+      const symbol = type.getSymbol();
+      if (!symbol || symbol.getName() !== 'BridgeError') types.push({ type, node: node.arguments[0] });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(handler.body);
+
+  if (types.length === 0) return null;
+  const texts = [];
+  types.forEach(({ type, node }) => {
+    const text = serializeType(type, node, 2);
+    if (!texts.includes(text)) texts.push(text);
+  });
+  return texts.join(' | ');
+};
+
+const actions = [];
+
+handlerFiles.forEach(file => {
+  const sourceFile = program.getSourceFile(file);
+
+  const visit = (node) => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) &&
+      node.expression.text === 'registerHandler' && node.arguments.length >= 2 &&
+      ts.isStringLiteral(node.arguments[0])) {
+      const { namespace, feature } = getManifestEntry(file);
+      const action = namespace ? `${namespace}.${node.arguments[0].text}` : node.arguments[0].text;
+      const handler = node.arguments[1];
+      const options = node.arguments[2];
+      const typeArgs = node.typeArguments || [];
+
+      let payload = 'void';
+      if (typeArgs[0]) {
+        payload = serializeType(checker.getTypeFromTypeNode(typeArgs[0]), typeArgs[0], 2);
+      } else if (getProperty(options, 'schema')) {
+        payload = schemaToType(getProperty(options, 'schema'), 2);
+      }
+
+      let response = 'unknown';
+      if (typeArgs[1]) {
+        response = serializeType(checker.getTypeFromTypeNode(typeArgs[1]), typeArgs[1], 2);
+      } else if (ts.isArrowFunction(handler) || ts.isFunctionExpression(handler)) {
+        response = inferResponseType(handler) || 'unknown';
+      }
+
+      const platformsNode = getProperty(options, 'platforms');
+      const platforms = platformsNode && ts.isArrayLiteralExpression(platformsNode)
+        ? platformsNode.elements.map(literalValue)
+        : null;
+
+      actions.push({
+        action,
+        payload,
+        response,
+        platforms,
+        feature,
+        description: getDescription(node, sourceFile),
+        module: path.basename(path.dirname(file)),
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+});
+
+actions.sort((a, b) => a.action.localeCompare(b.action));
+
+// 에러 코드 (BridgeErrorCode 유니온)
+const errorSource = program.getSourceFile(path.join(root, 'lib', 'bridge-error.ts'));
+const errorAlias = errorSource.statements.find(s => ts.isTypeAliasDeclaration(s) && s.name.text === 'BridgeErrorCode');
+const errorCodes = serializeType(checker.getTypeAtLocation(errorAlias.name), errorAlias);
+
+// 프로토콜 버전
+const clientSource = fs.readFileSync(path.join(root, 'lib', 'bridge-client.ts'), 'utf8');
+const protocolVersion = (clientSource.match(/BRIDGE_PROTOCOL_VERSION = '([^']+)'/) || [])[1] || '0.0.0';
+
+// ========================================
+// 출력
+// ========================================
+
+const actionDoc = ({ description, platforms, feature, module }) => {
+  const lines = [];
+  if (description) lines.push(description);
+  if (platforms) lines.push(`@platform ${platforms.join(', ')}`);
+  if (feature) lines.push(`@feature ${feature} (기능 플래그가 꺼져 있으면 UNKNOWN_ACTION)`);
+  lines.push(`@module ${module}`);
+  return `  /**\n${lines.map(line => `   * ${line}`).join('\n')}\n   */\n`;
+};
+
+const dts = `${HEADER}
+/** 앱 브릿지 프로토콜 버전 */
+export declare const PROTOCOL_VERSION: '${protocolVersion}';
+
+/** 앱 에러 코드 */
+export type BridgeErrorCode = ${errorCodes};
+
+/** AppBridge.call 실패 시 reject 되는 에러 */
+export interface BridgeError extends Error {
+  code: BridgeErrorCode;
+  details?: Record<string, unknown>;
+}
+
+/** 업로드 진행률 (큰 Blob/File 청크 전송) */
+export interface UploadProgress {
+  transferId: string;
+  name: string;
+  loaded: number;
+  total: number;
+}
+
+/** call 옵션 */
+export interface CallOptions {
+  /** 타임아웃 (ms, 기본 10000) */
+  timeout?: number;
+  /** 호출 취소 신호 */
+  signal?: AbortSignal;
+  /** 업로드 진행률 콜백 */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/** 앱이 제공하는 액션별 페이로드/응답 타입 */
+export interface BridgeActions {
+${actions.map(a => `${actionDoc(a)}  ${propertyKey(a.action)}: {\n    payload: ${a.payload};\n    response: ${a.response};\n  };`).join('\n')}
+}
+
+export type BridgeAction = keyof BridgeActions;
+export type BridgePayload<A extends BridgeAction> = BridgeActions[A]['payload'];
+export type BridgeResponse<A extends BridgeAction> = BridgeActions[A]['response'];
+
+/** 페이로드가 없거나 모두 선택 필드면 생략 가능 */
+export type CallArgs<A extends BridgeAction> = BridgePayload<A> extends void
+  ? [payload?: undefined, options?: number | CallOptions]
+  : {} extends BridgePayload<A>
+    ? [payload?: BridgePayload<A>, options?: number | CallOptions]
+    : [payload: BridgePayload<A>, options?: number | CallOptions];
+
+/** 앱 환경(WebView)인지 확인 */
+export declare function isApp(): boolean;
+
+/** 브릿지 초기화 대기 (앱 밖에서는 reject) */
+export declare function ready(timeout?: number): Promise<void>;
+
+/** 앱 액션 호출 후 응답 대기 */
+export declare function call<A extends BridgeAction>(action: A, ...args: CallArgs<A>): Promise<BridgeResponse<A>>;
+
+/** 앱으로 메시지 전송 (응답 없음) */
+export declare function send<A extends BridgeAction>(action: A, payload?: BridgePayload<A>): void;
+
+/** 앱에서 온 메시지 리스너 등록. 해제 함수 반환 */
+export declare function on<T = unknown>(action: string, callback: (payload: T, message?: unknown) => void): () => void;
+
+/** 앱 요청(callWeb)에 응답할 핸들러 등록. 해제 함수 반환 */
+export declare function handle<T = unknown, R = unknown>(action: string, handler: (payload: T, message?: unknown) => R | Promise<R>): () => void;
+
+/** Android 뒤로가기 정보 */
+export interface BackEvent {
+  canGoBack: boolean;
+  url: string;
+}
+
+/** Android 뒤로가기 핸들러 등록 (true 반환 시 앱 기본 동작 차단). 해제 함수 반환 */
+export declare function onBack(handler: (event: BackEvent) => boolean | Promise<boolean>): () => void;
+
+/** 당겨서 새로고침 핸들러 등록 (데이터 갱신 후 true 반환 시 페이지 새로고침 생략). 해제 함수 반환 */
+export declare function onRefresh(handler: (event: { url: string }) => boolean | Promise<boolean>): () => void;
+
+/** 액션별 호출 함수 (call의 단축형) */
+export declare const actions: {
+  [A in BridgeAction]: (...args: CallArgs<A>) => Promise<BridgeResponse<A>>;
+};
+
+export interface AppBridgeGlobal {
+  send(action: string, payload?: unknown): void;
+  call<T = unknown>(action: string, payload?: unknown, options?: number | CallOptions): Promise<T>;
+  on(action: string, callback: (payload: unknown, message?: unknown) => void): void;
+  off(action: string, callback?: (payload: unknown, message?: unknown) => void): void;
+  handle(action: string, handler: (payload: unknown, message?: unknown) => unknown): void;
+  unhandle(action: string): void;
+  onBack(handler: (event: BackEvent) => boolean | Promise<boolean>): () => void;
+  offBack(handler: (event: BackEvent) => boolean | Promise<boolean>): void;
+  onRefresh(handler: (event: { url: string }) => boolean | Promise<boolean>): () => void;
+  offRefresh(handler: (event: { url: string }) => boolean | Promise<boolean>): void;
+  isApp(): boolean;
+  version: string;
+}
+
+declare global {
+  interface Window {
+    AppBridge?: AppBridgeGlobal;
+  }
+}
+`;
+
+const js = `${HEADER}
+export const PROTOCOL_VERSION = '${protocolVersion}';
+
+const getBridge = () => {
+  if (typeof window === 'undefined' || !window.AppBridge) {
+    throw new Error('AppBridge is not available (not running inside the app)');
+  }
+  return window.AppBridge;
+};
+
+export function isApp() {
+  return typeof window !== 'undefined' && !!window.AppBridge && window.AppBridge.isApp();
+}
+
+export function ready(timeout = 5000) {
+  if (typeof window === 'undefined') {
+    return Promise.reject(new Error('AppBridge is not available (not running inside the app)'));
+  }
+  if (window.AppBridge) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      window.removeEventListener('AppBridgeReady', onReady);
+      reject(new Error('AppBridge is not available (not running inside the app)'));
+    }, timeout);
+    const onReady = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    window.addEventListener('AppBridgeReady', onReady, { once: true });
+  });
+}
+
+export function call(action, payload, options) {
+  return getBridge().call(action, payload, options);
+}
+
+export function send(action, payload) {
+  getBridge().send(action, payload);
+}
+
+export function on(action, callback) {
+  const bridge = getBridge();
+  bridge.on(action, callback);
+  return () => bridge.off(action, callback);
+}
+
+export function handle(action, handler) {
+  const bridge = getBridge();
+  bridge.handle(action, handler);
+  return () => bridge.unhandle(action);
+}
+
+export function onBack(handler) {
+  return getBridge().onBack(handler);
+}
+
+export function onRefresh(handler) {
+  return getBridge().onRefresh(handler);
+}
+
+export const actions = {
+${actions.map(a => `  ${propertyKey(a.action)}: (payload, options) => call('${a.action}', payload, options),`).join('\n')}
+};
+`;
+
+const appPackage = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf8'));
+const sdkPackage = {
+  name: PACKAGE_NAME,
+  version: appPackage.version,
+  description: 'Typed client for the app WebView bridge (generated)',
+  type: 'module',
+  main: 'index.js',
+  module: 'index.js',
+  types: 'index.d.ts',
+  files: ['index.js', 'index.d.ts'],
+  sideEffects: false,
+};
+
+fs.mkdirSync(outDir, { recursive: true });
+fs.writeFileSync(path.join(outDir, 'index.d.ts'), dts);
+fs.writeFileSync(path.join(outDir, 'index.js'), js);
+fs.writeFileSync(path.join(outDir, 'package.json'), JSON.stringify(sdkPackage, null, 2) + '\n');
+
+console.log(`✅ ${actions.length} actions → ${path.relative(root, outDir) || '.'}`);
+actions
+  .filter(a => a.response === 'unknown')
+  .forEach(a => console.log(`⚠️  ${a.action}: response type could not be determined`));
+console.log('✨ Web SDK generated!');
@@ -1,20 +1,16 @@
 const fs = require('fs');
 const path = require('path');
 
-const pluginsToSetup = [
-  {
-    name: 'rnww-plugin-camera',
-    keepModules: ['customcamera']
-  },
-  {
-    name: 'rnww-plugin-microphone',
-    keepModules: ['custommicrophone']
-  },
-  {
-    name: 'rnww-plugin-screen-pinning',
-    keepModules: ['screenpinning']
-  }
-];
+// 플러그인 매니페스트에서 패키지가 지정된 모듈 목록 읽기
+// 사용 중지(enabled: false)된 모듈도 JS에서 import 하므로 autolinking 설정은 유지
+const manifest = require('../constants/bridge-plugins.json');
+
+const pluginsToSetup = manifest.modules
+  .filter(entry => entry.package)
+  .map(entry => ({
+    name: entry.package,
+    keepModules: entry.keepModules || []
+  }));
 
 console.log('🔧 Setting up Expo plugins for autolinking...');
 
@@ -12,7 +12,7 @@ export type {
     AlarmItem, AlarmModuleState, AppActions, AppState, DeviceControlModuleState,
     DeviceInfo, NotificationItem,
     // 확장 모듈 타입
-    NotificationModuleState, RootStore, WebviewActions,
+    NotificationModuleState, RootStore, WebviewActions, WebviewCommand,
     WebviewError, WebviewState
 } from './types';
 
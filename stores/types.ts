@@ -23,8 +23,14 @@ export interface WebviewState {
   error: WebviewError | null;
   // 마지막 네비게이션 상태
   lastNavigation: WebViewNavigation | null;
+  // 마지막 WebView 요청 (navigate / reload, 대상 WebView가 구독해서 처리)
+  command: WebviewCommand | null;
 }
 
+export type WebviewCommand =
+  | { type: 'navigate'; url: string; webViewId: string }
+  | { type: 'reload'; webViewId: string };
+
 export interface WebviewError {
   code: number;
   description: string;
@@ -39,6 +45,9 @@ export interface WebviewActions {
   setCanGoForward: (canGoForward: boolean) => void;
   setError: (error: WebviewError | null) => void;
   setLastNavigation: (navigation: WebViewNavigation | null) => void;
+  // WebView 제어 (webViewId 미지정 시 기본 WebView)
+  navigate: (url: string, webViewId?: string) => void;
+  reload: (webViewId?: string) => void;
   resetWebviewState: () => void;
 }
 
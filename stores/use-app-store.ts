@@ -7,6 +7,7 @@ import { create } from 'zustand';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
 
 import { APP_CONFIG } from '@/constants/app-config';
+import { DEFAULT_BRIDGE_ID } from '@/lib/bridge-client';
 import type { WebViewNavigation } from 'react-native-webview';
 import type {
     AppState,
@@ -26,6 +27,7 @@ const initialWebviewState: WebviewState = {
   canGoForward: false,
   error: null,
   lastNavigation: null,
+  command: null,
 };
 
 const initialAppState: AppState = {
@@ -66,6 +68,12 @@ export const useAppStore = create<RootStore>()(
         setLastNavigation: (navigation: WebViewNavigation | null) => 
           set({ lastNavigation: navigation }, false, 'webview/setLastNavigation'),
 
+        navigate: (url: string, webViewId: string = DEFAULT_BRIDGE_ID) => 
+          set({ command: { type: 'navigate', url, webViewId } }, false, 'webview/navigate'),
+
+        reload: (webViewId: string = DEFAULT_BRIDGE_ID) => 
+          set({ command: { type: 'reload', webViewId } }, false, 'webview/reload'),
+
         resetWebviewState: () => 
           set({ ...initialWebviewState }, false, 'webview/reset'),
 
@@ -130,6 +138,8 @@ export const getWebviewActions = () => ({
   setCanGoForward: useAppStore.getState().setCanGoForward,
   setError: useAppStore.getState().setError,
   setLastNavigation: useAppStore.getState().setLastNavigation,
+  navigate: useAppStore.getState().navigate,
+  reload: useAppStore.getState().reload,
   resetWebviewState: useAppStore.getState().resetWebviewState,
 });
 